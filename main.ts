@@ -1,12 +1,20 @@
-import { App, Editor, MarkdownView, Modal, Notice, Plugin, TFile } from 'obsidian';
+import { App, Editor, MarkdownView, Modal, Notice, Plugin, TFile, TFolder } from 'obsidian';
 import { WikiJSSettings } from './src/types';
 import { WikiJSSettingTab, DEFAULT_SETTINGS } from './src/settings';
 import { UploadModal } from './src/upload-modal';
 import { WikiJSAPI } from './src/wikijs-api';
-import { MarkdownProcessor } from './src/markdown-processor';
+import { SyncRegistry } from './src/sync-registry';
+import { NoteUploader } from './src/note-uploader';
+import { AutoSyncManager } from './src/auto-sync';
+import { PageMover } from './src/page-mover';
+import { PageRemover } from './src/page-remover';
+import { NavigationGenerator } from './src/navigation-generator';
 
 export default class NoteToWikiJSPlugin extends Plugin {
 	settings: WikiJSSettings;
+	syncRegistry: SyncRegistry;
+	private autoSync: AutoSyncManager;
+	private pageRemover: PageRemover;
 
 	async onload() {
 		await this.loadSettings();
@@ -36,14 +44,31 @@ export default class NoteToWikiJSPlugin extends Plugin {
 		});
 
 		// Add command to bulk upload files
-	// TODO: Re-enable after adding image upload support for bulk upload
-	// this.addCommand({
-	// 	id: 'bulk-upload-to-wikijs',
-	// 	name: 'Bulk upload folder to Wiki.js',
-	// 	callback: () => {
-	// 		this.bulkUploadFolder();
-	// 	}
-	// });
+		this.addCommand({
+			id: 'bulk-upload-to-wikijs',
+			name: 'Bulk upload folder',
+			callback: () => {
+				this.bulkUploadFolder();
+			}
+		});
+
+		// Add command to handle wiki pages of notes deleted from the vault
+		this.addCommand({
+			id: 'reconcile-deleted-notes',
+			name: 'Reconcile deleted notes',
+			callback: () => {
+				this.pageRemover.reconcile();
+			}
+		});
+
+		// Add command to generate the wiki.js navigation from published notes
+		this.addCommand({
+			id: 'generate-wikijs-navigation',
+			name: 'Generate navigation',
+			callback: () => {
+				void new NavigationGenerator(this.app, this).open();
+			}
+		});
 
 		// Add context menu item for files
 		this.registerEvent(
@@ -69,19 +94,58 @@ export default class NoteToWikiJSPlugin extends Plugin {
 		statusBarItemEl.setText('Wiki.js ready');
 		statusBarItemEl.addClass('wikijs-status-bar');
 
+		// Re-upload opted-in notes after they are edited
+		this.autoSync = new AutoSyncManager(this.app, this, statusBarItemEl);
+		this.registerEvent(
+			this.app.vault.on('modify', (file) => this.autoSync.onModify(file))
+		);
+
+		// Move wiki pages along with renamed or moved notes
+		const pageMover = new PageMover(this.app, this);
+		this.registerEvent(
+			this.app.vault.on('rename', (file, oldPath) => void pageMover.onRename(file, oldPath))
+		);
+
+		// Archive, unpublish or delete the wiki pages of deleted notes
+		this.pageRemover = new PageRemover(this.app, this);
+		this.registerEvent(
+			this.app.vault.on('delete', (file) => {
+				this.autoSync.cancel(file.path);
+				this.pageRemover.onDelete(file);
+			})
+		);
+
 		console.debug('Note to Wiki.js plugin loaded');
 	}
 
 	onunload() {
+		this.autoSync?.cancelAll();
+		this.pageRemover?.cancel();
 		console.debug('Note to Wiki.js plugin unloaded');
 	}
 
 	async loadSettings() {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+		// 同步记录与设置保存在同一个 data.json 中，单独取出交给 SyncRegistry 管理
+		const data = await this.loadData();
+		const { syncRecords, ...settings } = data || {};
+		this.settings = Object.assign({}, DEFAULT_SETTINGS, settings);
+		// 早期版本固定以 zh 语言创建页面：升级前已保存过设置的安装沿用 zh，避免找不到已有页面而重复创建
+		if (data && settings.defaultLocale === undefined) {
+			this.settings.defaultLocale = 'zh';
+		}
+		// 嵌套的设置对象需要复制，避免修改到 DEFAULT_SETTINGS；frontmatter 映射补齐新增的字段
+		this.settings.calloutStyles = Object.assign({}, this.settings.calloutStyles);
+		this.settings.conversionRules = this.settings.conversionRules.map(rule => ({ ...rule }));
+		this.settings.pathMappings = this.settings.pathMappings.map(mapping => ({ ...mapping }));
+		this.settings.frontmatterKeys = Object.assign({}, DEFAULT_SETTINGS.frontmatterKeys, settings.frontmatterKeys);
+		this.syncRegistry = new SyncRegistry(syncRecords, () => this.saveSettings());
 	}
 
 	async saveSettings() {
-		await this.saveData(this.settings);
+		await this.saveData({
+			...this.settings,
+			syncRecords: this.syncRegistry.toJSON()
+		});
 	}
 
 	showNotice(message: string, duration: number = 5000) {
@@ -140,36 +204,47 @@ export default class NoteToWikiJSPlugin extends Plugin {
 		modal.open();
 	}
 
-	// TODO: Re-enable bulk upload after adding image upload support
-	// private async bulkUploadFolder() {
-	// 	const folders = this.app.vault.getAllLoadedFiles()
-	// 		.filter(file => 'children' in file)
-	// 		.map(folder => folder.path);
-
-	// 	if (folders.length === 0) {
-	// 		this.showNotice('No folders found in vault');
-	// 		return;
-	// 	}
-
-	// 	// Create folder selection modal
-	// 	const modal = new FolderSelectionModal(this.app, folders, async (folderPath) => {
-	// 		await this.uploadFolderContents(folderPath);
-	// 	});
-	// 	modal.open();
-	// }
-
-	// private async uploadFolderContents(folderPath: string) {
-	// 	const files = this.app.vault.getMarkdownFiles()
-	// 		.filter(file => file.path.startsWith(folderPath));
-
-	// 	if (files.length === 0) {
-	// 		this.showNotice(`No markdown files found in folder: ${folderPath}`);
-	// 		return;
-	// 	}
-
-	// 	const modal = new BulkUploadModal(this.app, this, files);
-	// 	modal.open();
-	// }
+	private bulkUploadFolder() {
+		const folders = this.app.vault.getAllLoadedFiles()
+			.filter((file): file is TFolder => file instanceof TFolder)
+			.map(folder => folder.path);
+
+		if (folders.length === 0) {
+			this.showNotice('No folders found in vault');
+			return;
+		}
+
+		// Create folder selection modal
+		const modal = new FolderSelectionModal(this.app, folders, (folderPath) => {
+			void this.uploadFolderContents(folderPath);
+		});
+		modal.open();
+	}
+
+	private async uploadFolderContents(folderPath: string) {
+		if (!this.settings.wikiUrl || !this.settings.apiToken) {
+			this.showNotice('Please configure Wiki.js settings first (URL and API Token)');
+			return;
+		}
+
+		// 根目录的路径为 "/"，此时上传整个 vault
+		const files = this.app.vault.getMarkdownFiles()
+			.filter(file => folderPath === '/' || file.path.startsWith(`${folderPath}/`));
+
+		if (files.length === 0) {
+			this.showNotice(`No markdown files found in folder: ${folderPath}`);
+			return;
+		}
+
+		const api = new WikiJSAPI(this.settings);
+		if (!await api.checkConnection()) {
+			this.showNotice('Cannot connect to Wiki.js. Please check your settings.');
+			return;
+		}
+
+		const modal = new BulkUploadModal(this.app, this, files);
+		modal.open();
+	}
 }
 
 // File Selection Modal
@@ -210,7 +285,6 @@ class FileSelectionModal extends Modal {
 	}
 }
 
-// TODO: Re-enable after adding image upload support for bulk upload
 // Folder Selection Modal
 class FolderSelectionModal extends Modal {
 	folders: string[];
@@ -233,7 +307,7 @@ class FolderSelectionModal extends Modal {
 		this.folders.forEach(folder => {
 			const folderItem = folderList.createDiv('folder-item');
 			
-			folderItem.createEl('div', { text: folder || '(Root)', cls: 'folder-name' });
+			folderItem.createEl('div', { text: folder === '/' ? '(Root)' : folder, cls: 'folder-name' });
 			
 			folderItem.onclick = () => {
 				this.close();
@@ -248,13 +322,19 @@ class FolderSelectionModal extends Modal {
 	}
 }
 
-// TODO: Re-enable after adding image upload support for bulk upload
 // Bulk Upload Modal
+type BulkUploadStatus = 'pending' | 'uploading' | 'success' | 'skipped' | 'warning' | 'conflict' | 'error';
+
 class BulkUploadModal extends Modal {
 	plugin: NoteToWikiJSPlugin;
 	files: TFile[];
-	private uploadProgress: { [key: string]: 'pending' | 'uploading' | 'success' | 'error' } = {};
+	private uploadProgress: { [key: string]: BulkUploadStatus } = {};
 	private uploadResults: { [key: string]: string } = {};
+	private statusElements: { [key: string]: HTMLElement } = {};
+	private progressFill: HTMLElement;
+	private summaryEl: HTMLElement;
+	private uploadButton: HTMLButtonElement;
+	private retryButton: HTMLButtonElement;
 
 	constructor(app: App, plugin: NoteToWikiJSPlugin, files: TFile[]) {
 		super(app);
@@ -279,37 +359,54 @@ class BulkUploadModal extends Modal {
 		this.files.forEach(file => {
 			const fileItem = fileListDiv.createDiv('bulk-upload-item');
 			
-			fileItem.createEl('span', { text: file.name });
+			fileItem.createEl('span', { text: file.path });
 			const status = fileItem.createEl('span', { cls: 'upload-status' });
+			this.statusElements[file.path] = status;
 			
-			this.updateFileStatus(file.path, status);
+			this.updateFileStatus(file.path);
 		});
 
 		// Progress bar
 		const progressDiv = contentEl.createDiv('progress-container');
 		const progressBar = progressDiv.createEl('div', { cls: 'progress-bar' });
 		
-		const progressFill = progressBar.createEl('div', { cls: 'progress-fill' });
+		this.progressFill = progressBar.createEl('div', { cls: 'progress-fill' });
+
+		// Summary
+		this.summaryEl = contentEl.createDiv('bulk-upload-summary');
 
 		// Buttons
 		const buttonDiv = contentEl.createDiv('modal-button-container');
 		
-		const cancelButton = buttonDiv.createEl('button', { text: 'Cancel' });
+		const cancelButton = buttonDiv.createEl('button', { text: 'Close' });
 		cancelButton.onclick = () => this.close();
 
-		const uploadButton = buttonDiv.createEl('button', { 
+		this.retryButton = buttonDiv.createEl('button', { text: 'Retry failed' });
+		this.retryButton.hide();
+		this.retryButton.onclick = () => {
+			const failedFiles = this.files.filter(file => this.uploadProgress[file.path] === 'error');
+			void this.startBulkUpload(failedFiles);
+		};
+
+		this.uploadButton = buttonDiv.createEl('button', { 
 			text: 'Start upload',
 			cls: 'mod-cta'
 		});
-		uploadButton.onclick = () => this.startBulkUpload(progressFill, uploadButton);
+		this.uploadButton.onclick = () => this.startBulkUpload(this.files);
 	}
 
-	private updateFileStatus(filePath: string, statusElement: HTMLElement) {
+	private updateFileStatus(filePath: string) {
+		const statusElement = this.statusElements[filePath];
+		if (!statusElement) {
+			return;
+		}
+
 		const status = this.uploadProgress[filePath];
 		const result = this.uploadResults[filePath];
 		
 		// Remove all status classes
-		statusElement.removeClass('pending', 'uploading', 'success', 'error');
+		statusElement.removeClass('pending', 'uploading', 'success', 'skipped', 'warning', 'conflict', 'error');
+		statusElement.title = result || '';
 		
 		switch (status) {
 			case 'pending':
@@ -324,74 +421,70 @@ class BulkUploadModal extends Modal {
 				statusElement.textContent = '✅ success';
 				statusElement.addClass('success');
 				break;
+			case 'skipped':
+				statusElement.textContent = '⏭️ skipped (unchanged)';
+				statusElement.addClass('skipped');
+				break;
+			case 'warning':
+				statusElement.textContent = '⚠️ warnings';
+				statusElement.addClass('warning');
+				break;
+			case 'conflict':
+				statusElement.textContent = '⚠️ not overwritten';
+				statusElement.addClass('conflict');
+				break;
 			case 'error':
 				statusElement.textContent = '❌ error';
 				statusElement.addClass('error');
-				if (result) {
-					statusElement.title = result;
-				}
 				break;
 		}
 	}
 
-	private async startBulkUpload(progressFill: HTMLElement, uploadButton: HTMLButtonElement) {
-		uploadButton.textContent = 'Uploading...';
-		uploadButton.disabled = true;
+	private async startBulkUpload(files: TFile[]) {
+		this.uploadButton.textContent = 'Uploading...';
+		this.uploadButton.disabled = true;
+		this.retryButton.hide();
+		this.summaryEl.empty();
 
-		const api = new WikiJSAPI(this.plugin.settings);
-		const processor = new MarkdownProcessor(this.plugin.settings);
+		// 与单个上传共用同一套流程，包括图片上传
+		const uploader = new NoteUploader(this.app, this.plugin);
+
+		files.forEach(file => {
+			this.uploadProgress[file.path] = 'pending';
+			delete this.uploadResults[file.path];
+			this.updateFileStatus(file.path);
+		});
 
 		let completed = 0;
-		const total = this.files.length;
+		const total = files.length;
+		this.progressFill.style.width = '0%';
 
-		for (const file of this.files) {
+		for (const file of files) {
 			this.uploadProgress[file.path] = 'uploading';
-			this.updateFileStatusInModal(file.path);
+			this.updateFileStatus(file.path);
 			
 			try {
-				const content = await this.app.vault.read(file);
-				const path = processor.generatePath(file.name, file.parent?.path);
-				const processed = processor.processMarkdown(content, file.name, path);
-				const tags = processor.extractTags(content);
-
-				// Check if page exists
-				let existingPage;
-				try {
-					existingPage = await api.getPageByPath(path);
-				} catch (error) {
-					existingPage = null;
-				}
+				// 在 Wiki.js 上被修改过或不是由插件上传的页面不覆盖，需要单独上传并确认差异
+				const report = await uploader.uploadNote(file, undefined, true);
 
-				let result;
-				if (existingPage) {
-					const pageId = Number(existingPage.id);
-					if (isNaN(pageId)) {
-						throw new Error(`Invalid page ID: ${existingPage.id}`);
-					}
-					result = await api.updatePage(
-						pageId,
-						path,
-						processed.title,
-						processed.content,
-						undefined,
-						tags
-					);
+				if (report.conflict) {
+					this.uploadProgress[file.path] = 'conflict';
+					this.uploadResults[file.path] = report.result.message;
+				} else if (!report.result.success) {
+					this.uploadProgress[file.path] = 'error';
+					this.uploadResults[file.path] = report.result.message;
+				} else if (report.images.failed.length > 0 || report.unresolvedLinks.length > 0) {
+					this.uploadProgress[file.path] = 'warning';
+					this.uploadResults[file.path] = [
+						...report.images.failed.map(failure => `${failure.name}: ${failure.message}`),
+						...report.unresolvedLinks.map(link => `Unresolved link: [[${link}]]`)
+					].join('\n');
+				} else if (report.skipped) {
+					this.uploadProgress[file.path] = 'skipped';
+					this.uploadResults[file.path] = report.result.pageUrl || '';
 				} else {
-					result = await api.createPage(
-						path,
-						processed.title,
-						processed.content,
-						undefined,
-						tags
-					);
-				}
-
-				if (result.success) {
 					this.uploadProgress[file.path] = 'success';
-					this.uploadResults[file.path] = result.pageUrl || '';
-				} else {
-					this.uploadProgress[file.path] = 'error';
-					this.uploadResults[file.path] = result.message;
+					this.uploadResults[file.path] = report.result.pageUrl || '';
 				}
 
 			} catch (error) {
@@ -401,26 +494,48 @@ class BulkUploadModal extends Modal {
 
 			completed++;
 			const progress = (completed / total) * 100;
-			progressFill.style.width = `${progress}%`;
+			this.progressFill.style.width = `${progress}%`;
 			
-			this.updateFileStatusInModal(file.path);
+			this.updateFileStatus(file.path);
 		}
 
-		const successCount = Object.values(this.uploadProgress).filter(status => status === 'success').length;
-		const errorCount = Object.values(this.uploadProgress).filter(status => status === 'error').length;
-
-		uploadButton.textContent = `Completed (${successCount} success, ${errorCount} errors)`;
-		
-		this.plugin.showNotice(`Bulk upload completed: ${successCount} successful, ${errorCount} errors`);
+		this.showSummary();
 	}
 
-	private updateFileStatusInModal(filePath: string) {
-		const statusElements = this.contentEl.querySelectorAll('.upload-status');
-		const fileIndex = this.files.findIndex(f => f.path === filePath);
-		
-		if (fileIndex >= 0 && statusElements[fileIndex]) {
-			this.updateFileStatus(filePath, statusElements[fileIndex] as HTMLElement);
+	private showSummary() {
+		const statuses = Object.values(this.uploadProgress);
+		const successCount = statuses.filter(status => status === 'success').length;
+		const skippedCount = statuses.filter(status => status === 'skipped').length;
+		const warningCount = statuses.filter(status => status === 'warning').length;
+		const conflictCount = statuses.filter(status => status === 'conflict').length;
+		const errorCount = statuses.filter(status => status === 'error').length;
+
+		this.summaryEl.empty();
+		this.summaryEl.createEl('p', {
+			text: `${successCount} uploaded, ${skippedCount} skipped (unchanged), ${warningCount} with warnings, ${conflictCount} not overwritten, ${errorCount} failed`
+		});
+
+		const conflictFiles = this.files.filter(file => this.uploadProgress[file.path] === 'conflict');
+		if (conflictFiles.length > 0) {
+			this.summaryEl.createEl('p', { text: 'These pages were not overwritten. Upload the notes one by one to review the differences:' });
+			const conflictList = this.summaryEl.createEl('ul');
+			conflictFiles.forEach(file => {
+				conflictList.createEl('li', { text: `${file.path}: ${this.uploadResults[file.path]}` });
+			});
 		}
+
+		const failedFiles = this.files.filter(file => this.uploadProgress[file.path] === 'error');
+		if (failedFiles.length > 0) {
+			const failedList = this.summaryEl.createEl('ul');
+			failedFiles.forEach(file => {
+				failedList.createEl('li', { text: `${file.path}: ${this.uploadResults[file.path]}` });
+			});
+			this.retryButton.show();
+		}
+
+		this.uploadButton.textContent = 'Completed';
+		
+		this.plugin.showNotice(`Bulk upload completed: ${successCount} successful, ${skippedCount} unchanged, ${warningCount} with warnings, ${conflictCount} not overwritten, ${errorCount} errors`);
 	}
 
 	onClose() {
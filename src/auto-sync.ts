@@ -0,0 +1,128 @@
+import { App, Notice, TAbstractFile, TFile } from 'obsidian';
+import NoteToWikiJSPlugin from '../main';
+import { MarkdownProcessor } from './markdown-processor';
+import { NoteUploader } from './note-uploader';
+
+/**
+ * AutoSyncManager - 笔记保存后自动重新上传
+ * 对开启自动同步的笔记（frontmatter 标记或位于配置的文件夹中），
+ * 在 vault 的 modify 事件停止一段时间后静默上传，结果显示在状态栏
+ */
+export class AutoSyncManager {
+	private app: App;
+	private plugin: NoteToWikiJSPlugin;
+	private statusBarEl: HTMLElement;
+	private timers = new Map<string, number>();
+	private uploading = new Set<string>();
+	private pending = new Set<string>();
+	// 已提示过冲突（页面在 Wiki.js 上被修改等）的笔记，避免每次保存都弹出提示
+	private conflicts = new Set<string>();
+
+	constructor(app: App, plugin: NoteToWikiJSPlugin, statusBarEl: HTMLElement) {
+		this.app = app;
+		this.plugin = plugin;
+		this.statusBarEl = statusBarEl;
+	}
+
+	/**
+	 * 处理 modify 事件：重新开始该笔记的倒计时
+	 */
+	onModify(file: TAbstractFile) {
+		if (!this.plugin.settings.autoSyncEnabled || !(file instanceof TFile) || file.extension !== 'md') {
+			return;
+		}
+
+		this.cancel(file.path);
+		const delay = Math.max(1, this.plugin.settings.autoSyncDelay) * 1000;
+		this.timers.set(file.path, window.setTimeout(() => {
+			this.timers.delete(file.path);
+			void this.sync(file);
+		}, delay));
+	}
+
+	cancel(filePath: string) {
+		const timer = this.timers.get(filePath);
+		if (timer !== undefined) {
+			window.clearTimeout(timer);
+			this.timers.delete(filePath);
+		}
+	}
+
+	cancelAll() {
+		this.timers.forEach(timer => window.clearTimeout(timer));
+		this.timers.clear();
+	}
+
+	private async sync(file: TFile) {
+		// 同一笔记正在上传时，等待上传结束后再同步一次
+		if (this.uploading.has(file.path)) {
+			this.pending.add(file.path);
+			return;
+		}
+
+		const settings = this.plugin.settings;
+		if (!settings.wikiUrl || !settings.apiToken) {
+			return;
+		}
+
+		this.uploading.add(file.path);
+		try {
+			const content = await this.app.vault.read(file);
+			if (!this.isAutoSyncNote(file, content)) {
+				return;
+			}
+
+			this.setStatus(`Wiki.js: syncing ${file.basename}...`);
+			const uploader = new NoteUploader(this.app, this.plugin);
+			// 页面在 Wiki.js 上被修改过或不是由此笔记上传时不自动覆盖，需要通过上传对话框确认
+			const report = await uploader.uploadNote(file, latest => uploader.getLastConfirmedFields(file, latest), true);
+
+			if (report.conflict) {
+				this.setStatus(`⚠️ Wiki.js: ${file.basename} not synced (conflict)`, report.result.message, true);
+				if (!this.conflicts.has(file.path)) {
+					this.conflicts.add(file.path);
+					new Notice(`Auto sync skipped ${file.basename}: ${report.result.message}. Upload the note manually to review the changes.`, 10000);
+				}
+				return;
+			}
+			this.conflicts.delete(file.path);
+
+			if (!report.result.success) {
+				this.setStatus(`⚠️ Wiki.js: sync failed (${file.basename})`, report.result.message, true);
+			} else if (report.images.failed.length > 0) {
+				const failures = report.images.failed.map(failure => `${failure.name}: ${failure.message}`).join('\n');
+				this.setStatus(`⚠️ Wiki.js: ${file.basename} synced, images failed`, failures, true);
+			} else if (report.skipped) {
+				this.setStatus(`Wiki.js: ${file.basename} unchanged`, report.result.pageUrl);
+			} else {
+				this.setStatus(`Wiki.js: synced ${file.basename}`, report.result.pageUrl);
+			}
+		} catch (error) {
+			console.error(`Auto sync failed for ${file.path}:`, error);
+			this.setStatus(`⚠️ Wiki.js: sync failed (${file.basename})`, error.message, true);
+		} finally {
+			this.uploading.delete(file.path);
+			if (this.pending.delete(file.path)) {
+				void this.sync(file);
+			}
+		}
+	}
+
+	/**
+	 * 笔记是否开启了自动同步：frontmatter 标记优先，其次看是否位于配置的文件夹中
+	 */
+	private isAutoSyncNote(file: TFile, content: string): boolean {
+		const flag = new MarkdownProcessor(this.plugin.settings).extractPageMetadata(content).autoSync;
+		if (flag !== undefined) {
+			return flag;
+		}
+
+		return this.plugin.settings.autoSyncFolders.some(folder => file.path.startsWith(`${folder}/`));
+	}
+
+	private setStatus(text: string, tooltip?: string, isError = false) {
+		this.statusBarEl.setText(text);
+		this.statusBarEl.title = tooltip || '';
+		this.statusBarEl.toggleClass('wikijs-status-error', isError);
+	}
+}
@@ -0,0 +1,24 @@
+/**
+ * 计算内容的 SHA-256 摘要（十六进制字符串）
+ * 用于判断笔记或附件自上次上传后是否发生变化
+ */
+export async function hashContent(data: string | ArrayBuffer): Promise<string> {
+	const buffer = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+	const digest = await crypto.subtle.digest('SHA-256', buffer);
+	return Array.from(new Uint8Array(digest))
+		.map(byte => byte.toString(16).padStart(2, '0'))
+		.join('');
+}
+
+/**
+ * 计算文本的短摘要（FNV-1a，8 位十六进制字符串）
+ * 用于为无法转换为 ASCII 的名称生成稳定的页面路径
+ */
+export function shortHash(text: string): string {
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < text.length; i++) {
+		hash ^= text.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193) >>> 0;
+	}
+	return hash.toString(16).padStart(8, '0');
+}
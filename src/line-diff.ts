@@ -0,0 +1,125 @@
+export interface DiffLine {
+	type: 'added' | 'removed' | 'unchanged';
+	text: string;
+}
+
+/**
+ * 按行比较两段文本（Myers 差异算法，线性空间的分治实现，大页面也不会占用大量内存）
+ * 用于在覆盖 Wiki.js 页面前展示远端内容与本地内容的差异
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+	const oldLines = oldText.split('\n');
+	const newLines = newText.split('\n');
+	const result: DiffLine[] = [];
+	diffRange(oldLines, 0, oldLines.length, newLines, 0, newLines.length, result);
+	return result;
+}
+
+/**
+ * 比较 oldLines[oldStart..oldEnd) 与 newLines[newStart..newEnd)，结果按顺序追加到 result
+ */
+function diffRange(oldLines: string[], oldStart: number, oldEnd: number, newLines: string[], newStart: number, newEnd: number, result: DiffLine[]) {
+	// 先去掉相同的开头和结尾，缩小需要比较的范围
+	while (oldStart < oldEnd && newStart < newEnd && oldLines[oldStart] === newLines[newStart]) {
+		result.push({ type: 'unchanged', text: oldLines[oldStart] });
+		oldStart++;
+		newStart++;
+	}
+	let suffix = 0;
+	while (oldEnd - suffix > oldStart && newEnd - suffix > newStart && oldLines[oldEnd - suffix - 1] === newLines[newEnd - suffix - 1]) {
+		suffix++;
+	}
+	oldEnd -= suffix;
+	newEnd -= suffix;
+
+	if (oldStart === oldEnd) {
+		for (let j = newStart; j < newEnd; j++) {
+			result.push({ type: 'added', text: newLines[j] });
+		}
+	} else if (newStart === newEnd) {
+		for (let i = oldStart; i < oldEnd; i++) {
+			result.push({ type: 'removed', text: oldLines[i] });
+		}
+	} else {
+		// 在最短编辑路径的中间把问题一分为二，分别递归比较
+		const [oldSplit, newSplit] = findMiddle(oldLines, oldStart, oldEnd, newLines, newStart, newEnd);
+		diffRange(oldLines, oldStart, oldSplit, newLines, newStart, newSplit, result);
+		diffRange(oldLines, oldSplit, oldEnd, newLines, newSplit, newEnd, result);
+	}
+
+	for (let i = oldEnd; i < oldEnd + suffix; i++) {
+		result.push({ type: 'unchanged', text: oldLines[i] });
+	}
+}
+
+/**
+ * 从两端同时搜索最短编辑路径，返回两个方向相遇处的位置（Myers 1986，第 4b 节）
+ */
+function findMiddle(oldLines: string[], oldStart: number, oldEnd: number, newLines: string[], newStart: number, newEnd: number): [number, number] {
+	const oldLength = oldEnd - oldStart;
+	const newLength = newEnd - newStart;
+	const maxD = Math.ceil((oldLength + newLength) / 2);
+	const offset = maxD;
+	// forward[k] / backward[k]：对角线 k 上从起点 / 终点出发能到达的最远位置
+	const forward = new Int32Array(2 * maxD + 2).fill(-1);
+	const backward = new Int32Array(2 * maxD + 2).fill(-1);
+	forward[offset + 1] = 0;
+	backward[offset + 1] = 0;
+	const delta = oldLength - newLength;
+	// 差值为奇数时在正向搜索中相遇，否则在反向搜索中相遇
+	const front = delta % 2 !== 0;
+	let forwardStart = 0;
+	let forwardEnd = 0;
+	let backwardStart = 0;
+	let backwardEnd = 0;
+
+	for (let d = 0; d < maxD; d++) {
+		for (let k = -d + forwardStart; k <= d - forwardEnd; k += 2) {
+			const index = offset + k;
+			let x = k === -d || (k !== d && forward[index - 1] < forward[index + 1]) ? forward[index + 1] : forward[index - 1] + 1;
+			let y = x - k;
+			while (x < oldLength && y < newLength && oldLines[oldStart + x] === newLines[newStart + y]) {
+				x++;
+				y++;
+			}
+			forward[index] = x;
+			if (x > oldLength) {
+				forwardEnd += 2;
+			} else if (y > newLength) {
+				forwardStart += 2;
+			} else if (front) {
+				const backwardIndex = offset + delta - k;
+				if (backwardIndex >= 0 && backwardIndex < backward.length && backward[backwardIndex] !== -1 && x >= oldLength - backward[backwardIndex]) {
+					return [oldStart + x, newStart + y];
+				}
+			}
+		}
+
+		for (let k = -d + backwardStart; k <= d - backwardEnd; k += 2) {
+			const index = offset + k;
+			let x = k === -d || (k !== d && backward[index - 1] < backward[index + 1]) ? backward[index + 1] : backward[index - 1] + 1;
+			let y = x - k;
+			while (x < oldLength && y < newLength && oldLines[oldEnd - x - 1] === newLines[newEnd - y - 1]) {
+				x++;
+				y++;
+			}
+			backward[index] = x;
+			if (x > oldLength) {
+				backwardEnd += 2;
+			} else if (y > newLength) {
+				backwardStart += 2;
+			} else if (!front) {
+				const forwardIndex = offset + delta - k;
+				if (forwardIndex >= 0 && forwardIndex < forward.length && forward[forwardIndex] !== -1) {
+					const forwardX = forward[forwardIndex];
+					if (forwardX >= oldLength - x) {
+						return [oldStart + forwardX, newStart + forwardX - (forwardIndex - offset)];
+					}
+				}
+			}
+		}
+	}
+
+	// 两个方向没有相遇（不应发生）：整体视为删除后添加
+	return [oldEnd, newStart];
+}
@@ -1,32 +1,98 @@
-import { WikiJSSettings } from './types';
+import { App, TFile, parseLinktext, parseYaml } from 'obsidian';
+import { WikiJSSettings, ProcessedMarkdown, PageMetadata, PathMapping, PathTemplateContext } from './types';
+import { SyncRegistry } from './sync-registry';
+import { ImageTagProcessor } from './image-tag-processor';
+import { tokenizeMarkdown, splitCodeSpans } from './markdown-tokenizer';
+import { transliterate } from './transliterate';
+import { shortHash } from './hash';
+
+// YAML frontmatter 块（兼容 CRLF 换行和没有正文的笔记）
+const FRONTMATTER_REGEX = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+
+const IMAGE_EXTENSION_REGEX = /\.(png|jpg|jpeg|gif|svg|webp|bmp|ico|tiff|tif|avif|heic|heif)$/i;
+
+// 受保护内容（代码、HTML 块、公式、图表）的占位符，使用 Unicode 私用区字符，不会与笔记内容冲突
+const PLACEHOLDER_START = '\uE000';
+const PLACEHOLDER_END = '\uE001';
+
+// 图片引用：![[target|display]]、![alt](target "title")、<img src="target">
+const IMAGE_REFERENCE_REGEX = /!\[\[([^\]|]+?)(?:\|([^\]]+))?\]\]|!\[([^\]]*)\]\(([^)]+)\)|<img\b[^>]*>/gi;
+
+// 路径模板为空时使用的默认模板
+const DEFAULT_PATH_TEMPLATE = '{{folder}}/{{slug}}';
+
+// ISO 639-1 语言代码，笔记名的后缀（note.de.md）只有是这些语言时才被当作语言区域
+const LANGUAGE_CODES = new Set([
+	'aa', 'ab', 'ae', 'af', 'ak', 'am', 'an', 'ar', 'as', 'av', 'ay', 'az', 'ba', 'be', 'bg', 'bi', 'bm', 'bn', 'bo', 'br', 'bs', 'ca', 'ce', 'ch',
+	'co', 'cr', 'cs', 'cu', 'cv', 'cy', 'da', 'de', 'dv', 'dz', 'ee', 'el', 'en', 'eo', 'es', 'et', 'eu', 'fa', 'ff', 'fi', 'fj', 'fo', 'fr', 'fy',
+	'ga', 'gd', 'gl', 'gn', 'gu', 'gv', 'ha', 'he', 'hi', 'ho', 'hr', 'ht', 'hu', 'hy', 'hz', 'ia', 'id', 'ie', 'ig', 'ii', 'ik', 'io', 'is', 'it',
+	'iu', 'ja', 'jv', 'ka', 'kg', 'ki', 'kj', 'kk', 'kl', 'km', 'kn', 'ko', 'kr', 'ks', 'ku', 'kv', 'kw', 'ky', 'la', 'lb', 'lg', 'li', 'ln', 'lo',
+	'lt', 'lu', 'lv', 'mg', 'mh', 'mi', 'mk', 'ml', 'mn', 'mr', 'ms', 'mt', 'my', 'na', 'nb', 'nd', 'ne', 'ng', 'nl', 'nn', 'no', 'nr', 'nv', 'ny',
+	'oc', 'oj', 'om', 'or', 'os', 'pa', 'pi', 'pl', 'ps', 'pt', 'qu', 'rm', 'rn', 'ro', 'ru', 'rw', 'sa', 'sc', 'sd', 'se', 'sg', 'si', 'sk', 'sl',
+	'sm', 'sn', 'so', 'sq', 'sr', 'ss', 'st', 'su', 'sv', 'sw', 'ta', 'te', 'tg', 'th', 'ti', 'tk', 'tl', 'tn', 'to', 'tr', 'ts', 'tt', 'tw', 'ty',
+	'ug', 'uk', 'ur', 'uz', 've', 'vi', 'vo', 'wa', 'wo', 'xh', 'yi', 'yo', 'za', 'zh', 'zu',
+]);
+
+// 嵌入时转换为 HTML5 播放器的媒体文件
+const VIDEO_EXTENSIONS = ['mp4', 'webm', 'ogv', 'mov', 'm4v'];
+const AUDIO_EXTENSIONS = ['mp3', 'wav', 'ogg', 'oga', 'm4a', 'flac', 'aac', 'opus'];
 
 export class MarkdownProcessor {
 	private settings: WikiJSSettings;
+	private app?: App;
+	private syncRegistry?: SyncRegistry;
 
-	constructor(settings: WikiJSSettings) {
+	/**
+	 * app 和 syncRegistry 用于把 [[链接]] 解析到目标笔记的 Wiki.js 路径，
+	 * 不提供时退回按链接文本生成路径
+	 */
+	constructor(settings: WikiJSSettings, app?: App, syncRegistry?: SyncRegistry) {
 		this.settings = settings;
+		this.app = app;
+		this.syncRegistry = syncRegistry;
 	}
 
 	/**
 	 * Convert Obsidian markdown to Wiki.js compatible markdown
 	 */
-	processMarkdown(content: string, fileName: string, pagePath?: string): { content: string; title: string; images: Array<{ name: string; path: string }> } {
-		let processedContent = content;
+	processMarkdown(content: string, fileName: string, pagePath?: string, sourceFile?: TFile, assetUrls?: Record<string, string>): ProcessedMarkdown {
+		const unresolvedLinks: string[] = [];
+		const protectedBlocks: string[] = [];
+
+		// Obsidian 注释（%% ... %%）不能发布到 Wiki.js，在提取标题、图片之前先去掉；
+		// 代码块、缩进代码和行内代码替换为占位符，之后的提取和转换只作用于正文
+		let processedContent = this.protectCode(this.stripObsidianComments(content), protectedBlocks, !this.settings.preserveObsidianSyntax);
 
 		// Extract title from file name or first heading
-		let title = this.extractTitle(content, fileName);
+		let title = this.restoreProtectedBlocks(this.extractTitle(processedContent, fileName), protectedBlocks);
 
 		// Extract images from original content before any modifications
-		const images = this.extractImages(content);
+		const images = this.extractImages(processedContent);
+		const attachments = this.extractAttachments(processedContent);
 		
 		// Debug log: Print extracted images
 		console.debug('Extracted images:', JSON.stringify(images, null, 2));
 
 		if (!this.settings.preserveObsidianSyntax) {
-			// Convert Obsidian-specific syntax
-			processedContent = this.convertObsidianLinks(processedContent);
+			// 附件和图片需要在笔记链接之前处理：附件链接会被当作笔记链接转换，
+			// 而笔记链接转换后的 ![Note](/note) 不是图片
 			console.debug('Processed pagePath:', pagePath);
-			processedContent = this.convertObsidianImages(processedContent, pagePath);
+			processedContent = this.convertObsidianAttachments(processedContent, pagePath, sourceFile, assetUrls);
+			processedContent = this.convertImageReferences(processedContent, pagePath, assetUrls);
+		}
+
+		// HTML 块中只替换图片地址，其余内容原样保留
+		processedContent = this.protectHtmlBlocks(processedContent, protectedBlocks);
+
+		if (!this.settings.preserveObsidianSyntax) {
+			// 公式先替换为占位符，避免其中的 # [[ ]] 等字符被后续转换修改
+			processedContent = this.convertMath(processedContent, protectedBlocks);
+
+			// Convert Obsidian-specific syntax
+			processedContent = this.convertInlineFootnotes(processedContent);
+			processedContent = this.convertHighlights(processedContent);
+			processedContent = this.convertObsidianLinks(processedContent, sourceFile, unresolvedLinks);
+			processedContent = this.convertBlockIds(processedContent);
 			processedContent = this.convertObsidianTags(processedContent);
 			processedContent = this.convertObsidianCallouts(processedContent);
 		}
@@ -37,74 +103,673 @@ export class MarkdownProcessor {
 
 		// Clean up any remaining Obsidian-specific elements
 		processedContent = this.cleanupObsidianSyntax(processedContent);
+		processedContent = this.restoreProtectedBlocks(processedContent, protectedBlocks);
+		processedContent = this.applyConversionRules(processedContent);
 
 		return {
 			content: processedContent.trim(),
 			title,
-			images
+			images,
+			attachments,
+			unresolvedLinks
 		};
 	}
 
+	/**
+	 * Expand note embeds (![[Note]], ![[Note#Section]], ![[Note#^block-id]]) before
+	 * conversion: insert the embedded content recursively, or a link plus excerpt.
+	 * Embeds that form a cycle or exceed the depth limit become plain links.
+	 */
+	async expandNoteEmbeds(content: string, sourceFile: TFile, depth = 0, visited: string[] = []): Promise<string> {
+		if (!this.app || this.settings.preserveObsidianSyntax || this.settings.noteEmbeds === 'ignore') {
+			return content;
+		}
+
+		// 复用图片的文件解析逻辑定位被嵌入的笔记
+		const resolver = new ImageTagProcessor(this.app);
+		const chain = visited.length > 0 ? visited : [sourceFile.path];
+		// 代码中的 ![[Note]] 不展开
+		const protectedBlocks: string[] = [];
+		content = this.protectCode(content, protectedBlocks, false);
+		const embedRegex = /!\[\[([^\]|]+)(\|([^\]]+))?\]\]/g;
+
+		let result = '';
+		let lastIndex = 0;
+		let match;
+		while ((match = embedRegex.exec(content)) !== null) {
+			result += content.substring(lastIndex, match.index);
+			lastIndex = match.index + match[0].length;
+
+			const link = match[1].trim();
+			const { path: linkPath, subpath } = parseLinktext(link.replace(/^([^#^]*)\^/, '$1#^'));
+			const file = linkPath ? resolver.resolveImageFile(linkPath, sourceFile) : null;
+
+			if (!file) {
+				// 带扩展名的附件交给图片转换；找不到的笔记转为普通链接，以便报告为无法解析
+				result += /\.[a-z0-9]+$/i.test(linkPath) && !/\.md$/i.test(linkPath) ? match[0] : match[0].substring(1);
+				continue;
+			}
+			if (file.extension !== 'md') {
+				result += match[0];
+				continue;
+			}
+			if (chain.indexOf(file.path) !== -1 || depth >= this.settings.embedDepthLimit) {
+				console.debug(`Embed of ${file.path} not expanded (cycle or depth limit)`);
+				result += match[0].substring(1);
+				continue;
+			}
+
+			const line = content.substring(content.lastIndexOf('\n', match.index - 1) + 1, match.index);
+			const marker = line.match(/^((?:[ \t]*>)*[ \t]*)((?:[-+*]|\d+[.)])[ \t]+)?/);
+			const prefix = marker ? marker[1] + ' '.repeat(marker[2]?.length || 0) : '';
+			const lineEnd = content.indexOf('\n', lastIndex);
+			const inline = line.length > (marker ? marker[0].length : 0)
+				|| content.substring(lastIndex, lineEnd === -1 ? content.length : lineEnd).trim() !== '';
+
+			const section = this.extractEmbedSection(file, await this.app.vault.cachedRead(file), subpath);
+			let embedded: string;
+			if (this.settings.noteEmbeds === 'link') {
+				// 段落中间的嵌入显示为普通链接，否则后面的文字会成为引用块的延续
+				if (inline) {
+					result += match[0].substring(1);
+					continue;
+				}
+				const excerpt = this.createExcerpt(section);
+				embedded = `> [[${link}]]` + (excerpt ? `\n>\n> ${excerpt}` : '');
+			} else {
+				embedded = (await this.expandNoteEmbeds(section, file, depth + 1, [...chain, file.path])).trim();
+			}
+			// 引用块、标注框或列表中的嵌入：插入的每一行都带上所在行的 > 标记和缩进
+			const lines = `\n${embedded}\n`.split('\n').map(text => text ? prefix + text : prefix.trimEnd());
+			result += lines.join('\n').substring(lines[0].length);
+		}
+		result += content.substring(lastIndex);
+
+		return this.restoreProtectedBlocks(result, protectedBlocks);
+	}
+
+	/**
+	 * The part of an embedded note a subpath points to: the whole note (without
+	 * frontmatter), a heading section, or a single block
+	 */
+	private extractEmbedSection(file: TFile, content: string, subpath: string): string {
+		const cache = this.app?.metadataCache.getFileCache(file);
+		const parts = subpath.split('#').filter(part => part);
+		const target = parts[parts.length - 1];
+
+		if (target && target.startsWith('^')) {
+			const block = cache?.blocks?.[target.substring(1).toLowerCase()];
+			if (block) {
+				return content
+					.substring(block.position.start.offset, block.position.end.offset)
+					.replace(/\s*\^[A-Za-z0-9-]+\s*$/, '');
+			}
+		} else if (target && cache?.headings) {
+			const headings = cache.headings;
+			const index = headings.findIndex(heading => heading.heading.toLowerCase() === target.toLowerCase());
+			if (index !== -1) {
+				const next = headings.slice(index + 1).find(heading => heading.level <= headings[index].level);
+				return content.substring(
+					headings[index].position.start.offset,
+					next ? next.position.start.offset : content.length
+				);
+			}
+		}
+
+		return content.replace(FRONTMATTER_REGEX, '');
+	}
+
+	/**
+	 * First paragraph of the embedded content, shortened for link-with-excerpt embeds
+	 */
+	private createExcerpt(content: string, maxLength = 200): string {
+		const paragraph = content
+			.replace(/^#{1,6}\s.*$/gm, '')
+			.replace(/!\[\[[^\]]*\]\]/g, '')
+			.split(/\n\s*\n/)
+			.map(block => block.trim())
+			.find(block => block) || '';
+		const text = paragraph.replace(/\s+/g, ' ');
+		return text.length > maxLength ? `${text.substring(0, maxLength).trim()}…` : text;
+	}
+
 	private extractTitle(content: string, fileName: string): string {
+		// Prefer the title set in frontmatter
+		const metadataTitle = this.extractPageMetadata(content).title;
+		if (metadataTitle) {
+			return metadataTitle;
+		}
+
 		// Try to find the first heading
-		const headingMatch = content.match(/^#\s+(.+)$/m);
+		const headingMatch = content.replace(FRONTMATTER_REGEX, '').match(/^#\s+(.+)$/m);
 		if (headingMatch) {
 			return headingMatch[1].trim();
 		}
 
 		// If no heading found, use filename without extension
-		return fileName.replace(/\.md$/, '').replace(/^\d{4}-\d{2}-\d{2}-/, '');
+		return this.stripLocaleSuffix(fileName.replace(/\.md$/, '')).replace(/^\d{4}-\d{2}-\d{2}-/, '');
 	}
 
-	private convertObsidianLinks(content: string): string {
+	private convertObsidianLinks(content: string, sourceFile?: TFile, unresolvedLinks: string[] = []): string {
 		// Convert [[Link]] to [Link](Link), but ignore image links
 		return content.replace(/\[\[([^\]|]+)(\|([^\]]+))?\]\]/g, (match, link, pipe, displayText) => {
 			// Skip if this is an image link (ends with image extension)
-			if (/\.(png|jpg|jpeg|gif|svg|webp|bmp|ico|tiff|tif|avif|heic|heif)$/i.test(link)) {
+			if (IMAGE_EXTENSION_REGEX.test(link)) {
 				return match;
 			}
-			const text = displayText || link;
-			const url = link.replace(/\s+/g, '-').toLowerCase();
-			return `[${text}](/${url})`;
+			// Obsidian 也接受 [[Note^block-id]]，统一为 [[Note#^block-id]] 再解析
+			const normalizedLink = link.replace(/^([^#^]*)\^/, '$1#^');
+			const { path: linkPath, subpath } = parseLinktext(normalizedLink);
+			const anchor = this.convertSubpath(subpath);
+			const text = displayText || this.getLinkDisplayText(linkPath, subpath) || link;
+
+			// [[#Heading]] 指向当前页面内的锚点
+			if (!linkPath && anchor) {
+				return `[${text}](${anchor})`;
+			}
+
+			// 通过 Obsidian 的链接解析找到目标笔记，再映射到它在 Wiki.js 中的路径
+			const wikiPath = this.resolveLinkPath(linkPath, sourceFile);
+			if (wikiPath !== null) {
+				return `[${text}](/${wikiPath}${anchor})`;
+			}
+
+			if (sourceFile && unresolvedLinks.indexOf(link) === -1) {
+				unresolvedLinks.push(link);
+			}
+			const url = linkPath.replace(/\s+/g, '-').toLowerCase();
+			return `[${text}](/${url}${anchor})`;
 		});
 	}
 
-	private convertObsidianImages(content: string, pagePath?: string): string {
-		// Convert Obsidian image format ![[image.png]] to Wiki.js format ![image.png](/path/image.png)
-		return content.replace(/!\[\[([^\]|]+?)(\|([^\]]+))?\]\]/g, (match, imageName, pipe, displayText) => {
-			// 只处理图片文件（有图片扩展名的）
-			if (!/\.(png|jpg|jpeg|gif|svg|webp|bmp|ico|tiff|tif|avif|heic|heif)$/i.test(imageName)) {
+	/**
+	 * Display text Obsidian shows for links with a subpath, e.g. "Note > Heading"
+	 */
+	private getLinkDisplayText(linkPath: string, subpath: string): string {
+		const parts = subpath.split('#').filter(part => part);
+		if (parts.length === 0) {
+			return linkPath;
+		}
+		return [linkPath, ...parts].filter(part => part).join(' > ');
+	}
+
+	/**
+	 * Convert a link subpath (#Heading, #Heading#Sub, #^block-id) to a Wiki.js anchor
+	 */
+	private convertSubpath(subpath: string): string {
+		const parts = subpath.split('#').filter(part => part);
+		if (parts.length === 0) {
+			return '';
+		}
+
+		// 多级标题链接只保留最后一级
+		const last = parts[parts.length - 1];
+		if (last.startsWith('^')) {
+			return `#${this.getBlockAnchorId(last.substring(1))}`;
+		}
+		return `#${this.slugifyHeading(last)}`;
+	}
+
+	/**
+	 * Slug Wiki.js gives a heading (mirrors the uslug-based header ids of its renderer)
+	 */
+	private slugifyHeading(heading: string): string {
+		let slug = heading
+			.trim()
+			.toLowerCase()
+			.replace(/[^\p{L}\p{N}\s_-]/gu, '')
+			.replace(/\s+/g, '-');
+
+		// Wiki.js 的锚点不能以数字开头
+		if (/^\d/.test(slug)) {
+			slug = `h-${slug}`;
+		}
+		return slug;
+	}
+
+	private getBlockAnchorId(blockId: string): string {
+		return `block-${blockId.toLowerCase()}`;
+	}
+
+	/**
+	 * Replace Obsidian block ids (" ^block-id" at the end of a paragraph, or on
+	 * its own line after a list or table) with an HTML anchor that links can target
+	 */
+	private convertBlockIds(content: string): string {
+		return content
+			.replace(/^\^([A-Za-z0-9-]+)[ \t]*$/gm, (match, blockId) => `<a id="${this.getBlockAnchorId(blockId)}"></a>`)
+			.replace(/[ \t]+\^([A-Za-z0-9-]+)[ \t]*$/gm, (match, blockId) => ` <a id="${this.getBlockAnchorId(blockId)}"></a>`);
+	}
+
+	/**
+	 * Resolve a link path to the wiki path of the target note, in the same order
+	 * as the upload dialog: its frontmatter path, the path it was published at
+	 * (sync registry) or the path generatePath would give it
+	 */
+	private resolveLinkPath(linkPath: string, sourceFile?: TFile): string | null {
+		if (!this.app || !sourceFile) {
+			return null;
+		}
+
+		// [[#Heading]] 指向当前笔记
+		const target = linkPath
+			? this.app.metadataCache.getFirstLinkpathDest(linkPath, sourceFile.path)
+			: sourceFile;
+		if (!target || target.extension !== 'md') {
+			return null;
+		}
+
+		const frontmatter = this.app.metadataCache.getFileCache(target)?.frontmatter;
+		const frontmatterPath = frontmatter ? this.mapPageMetadata(frontmatter).path : undefined;
+		if (frontmatterPath) {
+			return frontmatterPath;
+		}
+
+		const record = this.syncRegistry?.get(target.path);
+		if (record) {
+			return record.path.replace(/^\/+/, '');
+		}
+		return this.generatePath(target.name, target.parent?.path, this.getPathContext(target));
+	}
+
+	/**
+	 * Wiki.js 保存上传文件时会对文件名进行以下转换，这里需要做同样的处理：
+	 * 1. 去除文件名中不允许的字符
+	 * 2. 将空格（以及 , ; #）转换为下划线（连续的合并为一个下划线）
+	 * 3. 将大写字母转换为小写字母
+	 * 上传后的实际文件名以资源列表为准，见 NoteUploader.uploadImages
+	 */
+	normalizeAssetFileName(fileName: string): string {
+		return fileName
+			.replace(/[\/?<>\\:*|"\x00-\x1f]/g, '')
+			.replace(/[\s,;#]+/g, '_')
+			.toLowerCase();
+	}
+
+	/**
+	 * 页面资源文件夹的路径：页面路径的每一级按路径生成规则转换，
+	 * 与 ensureAssetFolderPath 创建的文件夹一致（frontmatter 中手写的路径也一样）
+	 */
+	getAssetFolderPath(pagePath: string): string {
+		return this.slugifyPath(pagePath);
+	}
+
+	/**
+	 * 资源文件在 Wiki.js 中的地址：与页面路径同名的资源文件夹
+	 * 例如：notes/coco/my-page -> /notes/coco/my-page/image.png；没有页面路径时放在根目录
+	 */
+	getAssetUrl(fileName: string, pagePath?: string): string {
+		const cleanPath = pagePath ? this.getAssetFolderPath(pagePath) : '';
+		return cleanPath ? `/${cleanPath}/${fileName}` : `/${fileName}`;
+	}
+
+	/**
+	 * 链接是否指向需要上传的附件（扩展名在允许列表中、且不是图片或笔记）
+	 */
+	private isAttachmentLink(linkPath: string): boolean {
+		const extension = linkPath.match(/\.([^./\\]+)$/)?.[1].toLowerCase();
+		if (!extension || extension === 'md' || IMAGE_EXTENSION_REGEX.test(linkPath)) {
+			return false;
+		}
+		return this.settings.attachmentExtensions.indexOf(extension) !== -1;
+	}
+
+	/**
+	 * Convert attachment embeds and links ([[spec.pdf]], ![[demo.mp4]]) to links to the
+	 * uploaded asset, or HTML5 <video>/<audio> players for embedded media
+	 */
+	private convertObsidianAttachments(content: string, pagePath?: string, sourceFile?: TFile, assetUrls?: Record<string, string>): string {
+		return content.replace(/(!?)\[\[([^\]|]+?)(\|([^\]]+))?\]\]/g, (match, embed, link, pipe, displayText) => {
+			// PDF 等附件链接可以带有 #page=3 之类的子路径
+			const linkPath = link.split('#')[0].trim();
+			if (!this.isAttachmentLink(linkPath)) {
+				// 指向其他类型文件（不在允许列表中）的链接不上传，只保留链接文本
+				const target = linkPath && this.app && sourceFile
+					? this.app.metadataCache.getFirstLinkpathDest(linkPath, sourceFile.path)
+					: null;
+				if (target && target.extension !== 'md' && !IMAGE_EXTENSION_REGEX.test(target.name)) {
+					return displayText || target.name;
+				}
 				return match;
 			}
 
-		// 提取纯文件名（去除路径）
-		let fileName = imageName.split('/').pop()?.trim() || imageName.trim();
-		
-		// Wiki.js 会对文件名进行以下转换，这里需要做同样的处理：
-		// 1. 将空格转换为下划线（连续空格合并为一个下划线）
-		fileName = fileName.replace(/\s+/g, '_');
-		// 2. 将大写字母转换为小写字母
-		fileName = fileName.toLowerCase();
-			
-			// 构建图片在 Wiki.js 中的路径
-		// 如果提供了页面路径，则将图片放在相同的完整路径下
-			let imageUrl = '';
-			if (pagePath) {
-				// 去除前导斜杠
-				let cleanPath = pagePath.startsWith('/') ? pagePath.substring(1) : pagePath;
-				
-			// 保留完整路径，包括页面名称
-			// 例如：notes/coco/my-page -> /_assets/notes/coco/my-page/image.png
-				imageUrl = cleanPath ? `/${cleanPath}/${fileName}` : `/${fileName}`;
-			} else {
-				// 如果没有页面路径，放在根目录
-				imageUrl = `/${fileName}`;
+			const url = this.resolveAssetUrl(linkPath, pagePath, assetUrls);
+			const extension = (linkPath.split('.').pop() || '').toLowerCase();
+
+			if (embed) {
+				if (VIDEO_EXTENSIONS.indexOf(extension) !== -1) {
+					return `<video controls src="${url}"></video>`;
+				}
+				if (AUDIO_EXTENSIONS.indexOf(extension) !== -1) {
+					return `<audio controls src="${url}"></audio>`;
+				}
+				if (extension === 'pdf' && this.settings.pdfEmbeds === 'embed') {
+					return `<iframe src="${url}" width="100%" height="600"></iframe>`;
+				}
+			}
+
+			// 其他附件（以及非嵌入的链接）生成下载链接
+			return `[${displayText || linkPath.split('/').pop()}](${url})`;
+		});
+	}
+
+	/**
+	 * Rewrite every image reference (![[image.png]], ![alt](path/image.png), <img src>) to
+	 * the URL of the uploaded asset in one pass. assetUrls maps the reference path (as
+	 * returned by extractImages) to the asset path the server accepted; references that
+	 * have not been uploaded yet point to where the asset is expected to be.
+	 */
+	private convertImageReferences(content: string, pagePath?: string, assetUrls?: Record<string, string>): string {
+		return content.replace(new RegExp(IMAGE_REFERENCE_REGEX), (match, wikiTarget, displayText, markdownAlt, markdownTarget) => {
+			// Obsidian 格式：![[image.png]]、![[image.png|说明|300]]
+			if (wikiTarget !== undefined) {
+				if (!IMAGE_EXTENSION_REGEX.test(wikiTarget.split('#')[0].trim())) {
+					return match;
+				}
+				const url = this.resolveAssetUrl(wikiTarget.split('#')[0], pagePath, assetUrls);
+				// 使用显示文本（如果有）或文件名作为 alt text，尺寸（|300、|300x200）转换为 Wiki.js 的尺寸标记
+				const { alt, size } = this.parseImageSize(displayText || '');
+				return `![${alt || url.split('/').pop()}](${url}${size})`;
+			}
+
+			// 标准 Markdown 格式：![alt|300](path/image.png "title")
+			if (markdownTarget !== undefined) {
+				const { url: target, rest } = this.splitImageTarget(markdownTarget);
+				const { alt, size } = this.parseImageSize(markdownAlt);
+				const url = this.isExternalUrl(target) ? target : this.resolveAssetUrl(target, pagePath, assetUrls);
+				if (url === target && !size) {
+					return match;
+				}
+				const hasSize = /\s=\d*x\d*$/.test(rest);
+				// 只有尺寸没有说明文字时，与 ![[image.png|300]] 一样使用文件名作为 alt text
+				return `![${size ? alt || url.split('/').pop() : markdownAlt}](${url}${rest}${hasSize ? '' : size})`;
+			}
+
+			// HTML <img> 标签只替换 src，保留 width、height、alt 等属性
+			return match.replace(/(\ssrc=)(["'])([^"']+)\2/i, (attribute, name, quote, src) => {
+				return this.isExternalUrl(src) ? attribute : `${name}${quote}${this.resolveAssetUrl(src, pagePath, assetUrls)}${quote}`;
+			});
+		});
+	}
+
+	private resolveAssetUrl(reference: string, pagePath?: string, assetUrls?: Record<string, string>): string {
+		const path = this.normalizeImagePath(reference);
+		if (assetUrls && assetUrls[path]) {
+			return assetUrls[path];
+		}
+		return this.getAssetUrl(this.normalizeAssetFileName(path.split('/').pop() || path), pagePath);
+	}
+
+	/**
+	 * Split a markdown image target into the URL and the rest (title, size hint)
+	 */
+	private splitImageTarget(target: string): { url: string; rest: string } {
+		const trimmed = target.trim();
+		const angleBracket = trimmed.match(/^<([^>]+)>(.*)$/);
+		if (angleBracket) {
+			return { url: angleBracket[1], rest: angleBracket[2] };
+		}
+		const index = trimmed.search(/\s/);
+		return index === -1
+			? { url: trimmed, rest: '' }
+			: { url: trimmed.substring(0, index), rest: trimmed.substring(index) };
+	}
+
+	private isExternalUrl(url: string): boolean {
+		return /^([a-z][a-z0-9+.-]*:|\/\/)/i.test(url.trim());
+	}
+
+	/**
+	 * Split Obsidian image display text ("caption|300", "300x200") into the caption
+	 * and a Wiki.js size hint (" =300x", " =300x200")
+	 */
+	private parseImageSize(displayText: string): { alt: string; size: string } {
+		const parts = displayText.split('|');
+		const sizeMatch = parts[parts.length - 1].trim().match(/^(\d+)(?:x(\d+))?$/);
+		if (!sizeMatch) {
+			return { alt: displayText.trim(), size: '' };
+		}
+
+		parts.pop();
+		return {
+			alt: parts.join('|').trim(),
+			size: ` =${sizeMatch[1]}x${sizeMatch[2] || ''}`
+		};
+	}
+
+	/**
+	 * Replace fenced code blocks, indented code blocks and inline code with placeholders
+	 * (restored by restoreProtectedBlocks) so later conversions only apply to prose.
+	 * When convertDiagrams is set, ~~~mermaid / ```Mermaid fences become ```mermaid fences.
+	 */
+	private protectCode(content: string, protectedBlocks: string[], convertDiagrams: boolean): string {
+		return tokenizeMarkdown(content).map(block => {
+			if (block.type === 'html') {
+				return block.text;
+			}
+			if (block.type === 'text') {
+				return splitCodeSpans(block.text)
+					.map(span => span.code ? this.protect(span.text, protectedBlocks) : span.text)
+					.join('');
+			}
+
+			// 保留引用块和列表的前缀，callout 等按行处理的转换仍能识别代码块所在的位置
+			const lines = block.text.split('\n');
+			const indent = lines[0].match(/^(?:[ \t]*>)*[ \t]*/)?.[0] || '';
+			if (!convertDiagrams || block.language?.toLowerCase() !== 'mermaid') {
+				return indent + this.protect(block.text.substring(indent.length), protectedBlocks);
+			}
+
+			// Mermaid 图表内容保持不变，只统一代码块的写法；未闭合的代码块补上结束标记
+			const body = lines.slice(1);
+			const last = body.length > 0 ? body[body.length - 1].substring(indent.length).trim() : '';
+			if (/^(`{3,}|~{3,})$/.test(last)) {
+				body.pop();
+			}
+			return indent + this.protect(['```mermaid', ...body, `${indent}\`\`\``].join('\n'), protectedBlocks);
+		}).join('\n');
+	}
+
+	/**
+	 * Replace HTML blocks with placeholders, so Markdown conversions do not change them
+	 */
+	private protectHtmlBlocks(content: string, protectedBlocks: string[]): string {
+		return tokenizeMarkdown(content)
+			.map(block => block.type === 'html' ? this.protect(block.text, protectedBlocks) : block.text)
+			.join('\n');
+	}
+
+	private protect(text: string, protectedBlocks: string[]): string {
+		protectedBlocks.push(text);
+		return `${PLACEHOLDER_START}${protectedBlocks.length - 1}${PLACEHOLDER_END}`;
+	}
+
+	/**
+	 * Convert math to the form Wiki.js renders and replace it with placeholders:
+	 * $$...$$ on its own lines becomes a block with the delimiters on separate lines,
+	 * $$...$$ inside a line becomes inline $...$ (Wiki.js only supports display math as a block)
+	 */
+	private convertMath(text: string, protectedBlocks: string[]): string {
+		// 独占一行（或多行）的 $$...$$ 公式块，保留引用块的 > 前缀
+		text = text.replace(/^([ \t>]*)\$\$((?:(?!\$\$)[\s\S])+?)\$\$[ \t]*$/gm, (match, prefix, formula) => {
+			const formulaLines = formula.split('\n')
+				.map((line: string, index: number) => index === 0 ? line : line.replace(/^[ \t>]*/, ''))
+				.map((line: string) => line.trim())
+				.filter((line: string) => line.length > 0);
+			return prefix + this.protect(['$$', ...formulaLines, '$$'].join(`\n${prefix}`), protectedBlocks);
+		});
+
+		// 行内公式；$ 后紧跟空格或结束的 $ 后紧跟数字的不是公式（例如金额）
+		return text.replace(/\\\$|\$\$([^$\n]+?)\$\$|\$([^\s$](?:[^$\n]*?[^\s$\\])?)\$(?!\d)/g, (match, displayFormula, formula) => {
+			if (displayFormula !== undefined) {
+				return this.protect(`$${displayFormula.trim()}$`, protectedBlocks);
+			}
+			if (formula !== undefined) {
+				return this.protect(match, protectedBlocks);
+			}
+			return match;
+		});
+	}
+
+	/**
+	 * Remove Obsidian comments (%% inline %% and multi-line %% blocks %%), except in code.
+	 * Lines that only contained a comment are removed completely.
+	 */
+	stripObsidianComments(content: string): string {
+		const output: string[] = [];
+		let inComment = false;
+
+		// 代码块中的 %%（例如 Mermaid 的 %%{init}%%）不是注释；被注释掉的代码块整体去掉
+		const lines: Array<{ text: string; code: boolean }> = [];
+		for (const block of tokenizeMarkdown(content)) {
+			block.text.split('\n').forEach(text => lines.push({ text, code: block.type === 'code' }));
+		}
+
+		for (const { text: line, code } of lines) {
+			if (code) {
+				if (!inComment) {
+					output.push(line);
+				}
+				continue;
+			}
+
+			let result = '';
+			let last = 0;
+			let hasComment = inComment;
+			const pattern = /(`+)[^`]*?\1|%%/g;
+			let match;
+			while ((match = pattern.exec(line)) !== null) {
+				if (match[0] !== '%%') {
+					// 行内代码中的 %% 不是注释
+					if (!inComment) {
+						result += line.substring(last, match.index + match[0].length);
+					}
+					last = match.index + match[0].length;
+					continue;
+				}
+				if (!inComment) {
+					result += line.substring(last, match.index);
+				}
+				inComment = !inComment;
+				hasComment = true;
+				last = match.index + 2;
 			}
+			if (!inComment) {
+				result += line.substring(last);
+			}
+
+			if (!hasComment || result.trim().length > 0) {
+				output.push(hasComment ? result.replace(/[ \t]+$/, '') : result);
+			}
+		}
+
+		return output.join('\n');
+	}
+
+	/**
+	 * Convert inline footnotes (text^[note]) to standard footnotes: a [^n] reference
+	 * and a [^n]: note definition at the end of the page
+	 */
+	private convertInlineFootnotes(content: string): string {
+		// 不与笔记中已有的脚注编号冲突
+		const usedLabels = new Set<string>();
+		content.replace(/\[\^([^\]\s]+)\]/g, (match, label) => {
+			usedLabels.add(label);
+			return match;
+		});
+
+		const definitions: string[] = [];
+		let counter = 0;
+		let result = '';
+		let index = 0;
+		while (index < content.length) {
+			const start = content.indexOf('^[', index);
+			if (start === -1) {
+				break;
+			}
+
+			// 找到匹配的 ]，脚注中可以包含链接等嵌套的方括号，但不能跨段落
+			let depth = 0;
+			let end = -1;
+			for (let i = start + 1; i < content.length; i++) {
+				const char = content[i];
+				if (char === '\\') {
+					i++;
+				} else if (char === '[') {
+					depth++;
+				} else if (char === ']' && --depth === 0) {
+					end = i;
+					break;
+				} else if (char === '\n' && content[i + 1] === '\n') {
+					break;
+				}
+			}
+			if (end === -1) {
+				result += content.substring(index, start + 2);
+				index = start + 2;
+				continue;
+			}
+
+			do {
+				counter++;
+			} while (usedLabels.has(String(counter)));
+			result += `${content.substring(index, start)}[^${counter}]`;
+			definitions.push(`[^${counter}]: ${content.substring(start + 2, end).replace(/\s*\n\s*/g, ' ').trim()}`);
+			index = end + 1;
+		}
+		result += content.substring(index);
+
+		return definitions.length > 0 ? `${result.replace(/\s+$/, '')}\n\n${definitions.join('\n')}\n` : result;
+	}
+
+	/**
+	 * Convert ==highlights== to <mark>
+	 */
+	private convertHighlights(content: string): string {
+		return content.replace(/==(?=\S)([^=\n]*?[^=\s])==/g, '<mark>$1</mark>');
+	}
+
+	/**
+	 * Apply the user-defined conversion rules in order, after the built-in conversions.
+	 * Rules with an invalid regular expression are skipped.
+	 */
+	private applyConversionRules(content: string): string {
+		for (const rule of this.settings.conversionRules || []) {
+			if (!rule.enabled || !rule.find) {
+				continue;
+			}
+
+			let regex: RegExp;
+			try {
+				regex = new RegExp(rule.find, rule.flags);
+			} catch (error) {
+				console.warn(`Skipping invalid conversion rule /${rule.find}/${rule.flags}:`, error.message);
+				continue;
+			}
+
+			if (rule.scope === 'document') {
+				content = content.replace(regex, rule.replace);
+				continue;
+			}
+
+			// 正文和链接规则不修改代码和 HTML 块
+			const protectedBlocks: string[] = [];
+			const prose = this.protectHtmlBlocks(this.protectCode(content, protectedBlocks, false), protectedBlocks);
+			const converted = rule.scope === 'links'
+				? prose.replace(/(!?\[[^\]]*\]\()(<[^>]*>|[^)\s]+)/g, (match, start, url) => start + url.replace(regex, rule.replace))
+				: prose.replace(regex, rule.replace);
+			content = this.restoreProtectedBlocks(converted, protectedBlocks);
+		}
+
+		return content;
+	}
 
-			// 使用显示文本（如果有）或完整文件名作为 alt text
-			const altText = displayText || fileName;
-			
-			return `![${altText}](${imageUrl})`;
+	private restoreProtectedBlocks(content: string, protectedBlocks: string[]): string {
+		// 公式等受保护的内容中可能包含更早替换的行内代码占位符
+		const placeholder = new RegExp(`${PLACEHOLDER_START}(\\d+)${PLACEHOLDER_END}`, 'g');
+		return content.replace(placeholder, (match, index) => {
+			const block = protectedBlocks[Number(index)];
+			return block === undefined ? match : this.restoreProtectedBlocks(block, protectedBlocks);
 		});
 	}
 
@@ -114,22 +779,59 @@ export class MarkdownProcessor {
 	}
 
 	private convertObsidianCallouts(content: string): string {
-		// Convert Obsidian callouts to blockquotes
-		const calloutRegex = /^>\s*\[!(\w+)\]([^\n]*)\n((?:^>.*$\n?)*)/gm;
-		
-		return content.replace(calloutRegex, (match, type, title, body) => {
-			const cleanBody = body.replace(/^>\s?/gm, '');
-			const titleText = title.trim() || type.charAt(0).toUpperCase() + type.slice(1);
-			
-			return `> **${titleText}**\n>\n${cleanBody.split('\n').map((line: string) => `> ${line}`).join('\n')}\n`;
-		});
+		// Convert Obsidian callouts to Wiki.js styled blockquotes ({.is-info} etc.)
+		const lines = content.split('\n');
+		const output: string[] = [];
+
+		let i = 0;
+		while (i < lines.length) {
+			// 可折叠的 callout（[!note]- / [!note]+）在 Wiki.js 中直接展开显示
+			const header = lines[i].match(/^>\s*\[!([\w-]+)\][+-]?\s*(.*)$/);
+			if (!header) {
+				output.push(lines[i]);
+				i++;
+				continue;
+			}
+
+			const body: string[] = [];
+			i++;
+			while (i < lines.length && lines[i].startsWith('>')) {
+				body.push(lines[i].replace(/^>\s?/, ''));
+				i++;
+			}
+
+			const type = header[1].toLowerCase();
+			const titleText = header[2].trim() || type.charAt(0).toUpperCase() + type.slice(1);
+			// 嵌套的 callout 在去掉一层引用符号后递归转换
+			const innerLines = this.convertObsidianCallouts(body.join('\n')).split('\n');
+			while (innerLines.length > 0 && !innerLines[innerLines.length - 1].trim()) {
+				innerLines.pop();
+			}
+
+			output.push(`> **${titleText}**`);
+			if (innerLines.length > 0) {
+				output.push('>');
+				output.push(...innerLines.map(line => line ? `> ${line}` : '>'));
+			}
+
+			const style = this.settings.calloutStyles?.[type];
+			if (style) {
+				output.push(`{.is-${style}}`);
+			}
+			// 与后续内容隔开，避免被当作引用块的延续行
+			if (i < lines.length && lines[i].trim()) {
+				output.push('');
+			}
+		}
+
+		return output.join('\n');
 	}
 
 	private convertInternalLinks(content: string): string {
 		// Convert relative links to absolute Wiki.js paths
 		return content.replace(/\[([^\]]+)\]\((?!https?:\/\/)([^)]+)\)/g, (match, text, url) => {
-			if (url.startsWith('/')) {
-				return match; // Already absolute
+			if (url.startsWith('/') || url.startsWith('#')) {
+				return match; // Already absolute, or an anchor on the same page
 			}
 			return `[${text}](/${url})`;
 		});
@@ -137,7 +839,7 @@ export class MarkdownProcessor {
 
 	private cleanupObsidianSyntax(content: string): string {
 		// Remove YAML frontmatter
-		content = content.replace(/^---\n[\s\S]*?\n---\n/, '');
+		content = content.replace(FRONTMATTER_REGEX, '');
 		
 		// Remove empty callout blocks
 		content = content.replace(/^>\s*\[![^\]]*\]\s*$/gm, '');
@@ -149,76 +851,287 @@ export class MarkdownProcessor {
 	}
 
 	/**
-	 * Generate a Wiki.js compatible path from the file name
+	 * Generate a Wiki.js compatible path from the file name and folder, using the
+	 * folder mapping that matches the folder and the path template
 	 */
-	generatePath(fileName: string, folderPath?: string): string {
-		// Remove .md extension
-		let path = fileName.replace(/\.md$/, '');
-		
-		// Convert to lowercase and replace spaces with hyphens
-		path = path.toLowerCase().replace(/\s+/g, '-');
+	generatePath(fileName: string, folderPath?: string, context: PathTemplateContext = {}): string {
+		// Remove .md extension (and the locale suffix of translated notes)
+		let name = this.stripLocaleSuffix(fileName.replace(/\.md$/, ''));
 		
 		// Remove date prefixes (YYYY-MM-DD-)
-		path = path.replace(/^\d{4}-\d{2}-\d{2}-/, '');
-		
-		// Remove special characters except hyphens and underscores
-		path = path.replace(/[^a-z0-9\-_]/g, '');
+		name = name.replace(/^\d{4}-\d{2}-\d{2}(?:-|\s+)/, '');
 		
-		// Add folder path if provided
-		if (folderPath && folderPath !== '/') {
-			const cleanFolderPath = folderPath
-				.toLowerCase()
-				.replace(/\s+/g, '-')
-				.replace(/[^a-z0-9\-_/]/g, '')
-				.replace(/^\/+|\/+$/g, ''); // Remove leading/trailing slashes
-			
-			if (cleanFolderPath) {
-				path = `${cleanFolderPath}/${path}`;
+		// 匹配的文件夹映射替换路径前缀，其余的子文件夹照常转换
+		const folder = folderPath && folderPath !== '/' ? folderPath.replace(/^\/+|\/+$/g, '') : '';
+		const mapping = this.matchPathMapping(folder);
+		const wikiFolder = mapping
+			? [mapping.path, this.slugifyPath(folder.substring(mapping.folder.length))]
+				.filter(part => part)
+				.join('/')
+			: this.slugifyPath(folder);
+
+		const path = this.getPathTemplate(mapping).replace(/\{\{\s*([^}:\s]+)\s*(?::([^}]*))?\}\}/g, (match, variable: string, format?: string) => {
+			switch (variable) {
+				case 'folder':
+					return wikiFolder;
+				case 'slug':
+					return this.slugifySegment(name);
+				case 'date':
+					return this.formatDate(this.getNoteDate(context), format?.trim() || 'YYYY-MM-DD');
+				default:
+					// 其他变量取 frontmatter 中的同名属性
+					return this.slugifyPath(this.frontmatterValueToString(context.frontmatter?.[variable]));
+			}
+		});
+
+		// 去掉空变量留下的多余斜杠
+		return path.split('/').map(segment => segment.trim()).filter(segment => segment).join('/');
+	}
+
+	/**
+	 * The folder mapping with the longest folder prefix that contains the given vault folder
+	 */
+	matchPathMapping(folderPath?: string): PathMapping | undefined {
+		const folder = (folderPath || '').replace(/^\/+|\/+$/g, '');
+		let match: PathMapping | undefined;
+		for (const mapping of this.settings.pathMappings || []) {
+			if (mapping.folder && (folder === mapping.folder || folder.startsWith(`${mapping.folder}/`)) && (!match || mapping.folder.length > match.folder.length)) {
+				match = mapping;
 			}
 		}
-		
-		return path;
+		return match;
+	}
+
+	/**
+	 * The path template used for notes in a folder mapping (or outside of any)
+	 */
+	getPathTemplate(mapping?: PathMapping): string {
+		return mapping?.template.trim() || this.settings.pathTemplate?.trim() || DEFAULT_PATH_TEMPLATE;
+	}
+
+	/**
+	 * Template variables of a note: its frontmatter and creation time
+	 */
+	getPathContext(file: TFile, content?: string): PathTemplateContext {
+		return {
+			frontmatter: content !== undefined ? this.parseFrontmatter(content) : this.app?.metadataCache.getFileCache(file)?.frontmatter,
+			created: file.stat.ctime
+		};
+	}
+
+	/**
+	 * {{date}} 使用 frontmatter 中的 date / created，没有时使用笔记的创建时间
+	 */
+	private getNoteDate(context: PathTemplateContext): Date {
+		for (const key of ['date', 'created']) {
+			const value = context.frontmatter?.[key];
+			if (value instanceof Date && !isNaN(value.getTime())) {
+				return value;
+			}
+			if (typeof value === 'string') {
+				// 只有日期的值按本地时间处理，避免时区导致日期偏移一天
+				const dateOnly = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+				const date = dateOnly ? new Date(Number(dateOnly[1]), Number(dateOnly[2]) - 1, Number(dateOnly[3])) : new Date(value);
+				if (!isNaN(date.getTime())) {
+					return date;
+				}
+			}
+		}
+		return context.created ? new Date(context.created) : new Date();
+	}
+
+	private formatDate(date: Date, format: string): string {
+		const pad = (value: number) => String(value).padStart(2, '0');
+		const tokens: Record<string, string> = {
+			YYYY: String(date.getFullYear()),
+			YY: String(date.getFullYear()).slice(-2),
+			MM: pad(date.getMonth() + 1),
+			DD: pad(date.getDate())
+		};
+		return format.replace(/YYYY|YY|MM|DD/g, token => tokens[token]);
+	}
+
+	private frontmatterValueToString(value: unknown): string {
+		if (Array.isArray(value)) {
+			return value.length > 0 ? this.frontmatterValueToString(value[0]) : '';
+		}
+		if (value instanceof Date) {
+			return this.formatDate(value, 'YYYY-MM-DD');
+		}
+		return value === undefined || value === null || typeof value === 'object' ? '' : String(value);
+	}
+
+	/**
+	 * Convert one file or folder name to a path segment: lowercase, spaces become hyphens, and
+	 * - unicode: letters and digits of every script are kept (Wiki.js accepts Unicode paths)
+	 * - transliterate: accents are removed, Han characters become pinyin and Greek, Cyrillic and kana are romanized;
+	 *   a short hash is appended when other characters had to be dropped
+	 * - hash: characters outside [a-z0-9-_] are removed, as in earlier versions
+	 * With the ASCII strategies, a name with no letters or digits left becomes a stable 8-character hash.
+	 */
+	slugifySegment(name: string): string {
+		// macOS 的文件名使用分解形式（NFD），统一为 NFC 以免同名笔记得到不同的路径
+		const slug = name.normalize('NFC').trim().toLowerCase().replace(/\s+/g, '-');
+		if (this.settings.slugStrategy === 'unicode') {
+			return slug.replace(/[^\p{L}\p{M}\p{N}\-_]/gu, '').replace(/^-+|-+$/g, '');
+		}
+
+		if (this.settings.slugStrategy === 'transliterate') {
+			const source = transliterate(slug).trim().replace(/\s+/g, '-');
+			const ascii = source.replace(/[^a-z0-9\-_]/g, '').replace(/-{2,}/g, '-').replace(/^-+|-+$/g, '');
+			// 无法转写的文字（例如韩文）被去掉时加上原名称的摘要，避免只有这些文字不同的名称得到相同的路径
+			if (/[\p{L}\p{N}]/u.test(source.replace(/[\x00-\x7f]/g, ''))) {
+				return /[a-z0-9]/.test(ascii) ? `${ascii}-${shortHash(slug)}` : shortHash(slug);
+			}
+			return ascii;
+		}
+
+		// 与早期版本生成的路径保持一致（没有同步记录的已上传页面依赖它找到原页面），
+		// 完全由其他文字组成的名称（例如中文）用原名称的摘要代替空路径
+		const ascii = slug.replace(/[^a-z0-9\-_]/g, '');
+		if (!/[a-z0-9]/.test(ascii) && /[^\x00-\x7f]/.test(slug)) {
+			return shortHash(slug);
+		}
+		return ascii;
+	}
+
+	/**
+	 * Slugify every segment of a folder path
+	 */
+	private slugifyPath(folderPath: string): string {
+		return folderPath
+			.split('/')
+			.map(segment => this.slugifySegment(segment))
+			.filter(segment => segment.length > 0)
+			.join('/');
+	}
+
+	/**
+	 * Determine the page locale: frontmatter (lang / locale), then the
+	 * translation suffix of the file name (note.de.md), then the default locale
+	 */
+	extractLocale(content: string, fileName: string): string {
+		const metadataLocale = this.extractPageMetadata(content).locale;
+		if (metadataLocale) {
+			return metadataLocale.toLowerCase();
+		}
+
+		const suffix = this.getLocaleSuffix(fileName.replace(/\.md$/, ''));
+		if (suffix) {
+			return suffix;
+		}
+
+		return this.settings.defaultLocale || 'en';
+	}
+
+	/**
+	 * Locale suffix of a translated note name (e.g. "note.de" -> "de"),
+	 * only recognised when translation linking is enabled
+	 */
+	private getLocaleSuffix(baseName: string): string | null {
+		if (!this.settings.linkTranslations) {
+			return null;
+		}
+		// Node.js 之类的名称不是翻译：只接受 ISO 639-1 语言代码（可带地区，例如 pt-br）
+		const match = baseName.match(/\.([a-z]{2})(-[a-z]{2,4})?$/i);
+		return match && LANGUAGE_CODES.has(match[1].toLowerCase()) ? (match[1] + (match[2] || '')).toLowerCase() : null;
+	}
+
+	private stripLocaleSuffix(baseName: string): string {
+		const suffix = this.getLocaleSuffix(baseName);
+		return suffix ? baseName.slice(0, -(suffix.length + 1)) : baseName;
+	}
+
+	/**
+	 * Parse the YAML frontmatter of a note (empty object if missing or invalid)
+	 */
+	parseFrontmatter(content: string): Record<string, unknown> {
+		const yamlMatch = content.match(FRONTMATTER_REGEX);
+		if (!yamlMatch) {
+			return {};
+		}
+
+		try {
+			const frontmatter = parseYaml(yamlMatch[1]);
+			return frontmatter && typeof frontmatter === 'object' && !Array.isArray(frontmatter) ? frontmatter : {};
+		} catch (error) {
+			console.warn('Invalid frontmatter:', error);
+			return {};
+		}
+	}
+
+	/**
+	 * Map frontmatter properties to page fields using the configured keys
+	 */
+	extractPageMetadata(content: string): PageMetadata {
+		return this.mapPageMetadata(this.parseFrontmatter(content));
+	}
+
+	/**
+	 * Map already parsed frontmatter (e.g. from the metadata cache) to page fields
+	 */
+	private mapPageMetadata(frontmatter: Record<string, unknown>): PageMetadata {
+		const keys = this.settings.frontmatterKeys;
+
+		// 每个字段可以配置多个候选属性名（逗号分隔），取第一个存在的
+		const read = (field: keyof PageMetadata): unknown => {
+			const names = (keys?.[field] || '').split(',').map(name => name.trim()).filter(name => name);
+			const name = names.find(candidate => frontmatter[candidate] !== undefined && frontmatter[candidate] !== null);
+			return name ? frontmatter[name] : undefined;
+		};
+		const asString = (value: unknown): string | undefined => {
+			if (value instanceof Date) {
+				return value.toISOString();
+			}
+			return typeof value === 'string' || typeof value === 'number' ? String(value).trim() || undefined : undefined;
+		};
+		const asBoolean = (value: unknown): boolean | undefined => {
+			if (typeof value === 'boolean') {
+				return value;
+			}
+			if (typeof value === 'string' && /^(true|yes|false|no)$/i.test(value.trim())) {
+				return /^(true|yes)$/i.test(value.trim());
+			}
+			return undefined;
+		};
+
+		const rawTags = read('tags');
+		const tags = Array.isArray(rawTags)
+			? rawTags.map(tag => asString(tag)).filter((tag): tag is string => !!tag)
+			: asString(rawTags)?.split(/[,\s]+/).filter(tag => tag);
+
+		return {
+			title: asString(read('title')),
+			description: asString(read('description')),
+			tags: tags?.map(tag => tag.replace(/^#/, '')),
+			path: asString(read('path'))?.replace(/^\/+|\/+$/g, ''),
+			locale: asString(read('locale')),
+			isPublished: asBoolean(read('isPublished')),
+			isPrivate: asBoolean(read('isPrivate')),
+			publishStartDate: asString(read('publishStartDate')),
+			publishEndDate: asString(read('publishEndDate')),
+			autoSync: asBoolean(read('autoSync'))
+		};
 	}
 
 	/**
 	 * Extract tags from content (YAML frontmatter or inline tags)
 	 */
 	extractTags(content: string): string[] {
-		const tags: string[] = [];
+		const tags: string[] = [...(this.extractPageMetadata(content).tags || [])];
 		
-		// Extract from YAML frontmatter
-		const yamlMatch = content.match(/^---\n([\s\S]*?)\n---/);
-		if (yamlMatch) {
-			const yamlContent = yamlMatch[1];
-			const tagsMatch = yamlContent.match(/^tags:\s*\[(.*?)\]$/m) || 
-							 yamlContent.match(/^tags:\s*(.+)$/m);
-			
-			if (tagsMatch) {
-				const tagString = tagsMatch[1];
-				if (tagString.includes('[')) {
-					// Array format: [tag1, tag2, tag3]
-					const arrayTags = tagString.match(/["']?([^,"']+)["']?/g);
-					if (arrayTags) {
-						tags.push(...arrayTags.map(tag => tag.replace(/["']/g, '').trim()));
-					}
-				} else {
-					// Simple format: tag1, tag2, tag3
-					tags.push(...tagString.split(',').map(tag => tag.trim()));
+		// Extract inline hashtags (tags inside comments, code and HTML blocks are not published)
+		const prose = this.protectHtmlBlocks(this.protectCode(this.stripObsidianComments(content), [], false), []);
+		const hashtagMatches = prose.replace(FRONTMATTER_REGEX, '').match(/(^|\s)#([a-zA-Z0-9_/-]+)/g);
+		if (hashtagMatches) {
+			hashtagMatches.forEach(match => {
+				const tag = match.trim().substring(1); // Remove #
+				if (tags.indexOf(tag) === -1) {
+					tags.push(tag);
 				}
-			}
+			});
 		}
 		
-		// Extract inline hashtags
-		const hashtagMatches = content.match(/(^|\s)#([a-zA-Z0-9_/-]+)/g);
-					if (hashtagMatches) {
-				hashtagMatches.forEach(match => {
-					const tag = match.trim().substring(1); // Remove #
-					if (tags.indexOf(tag) === -1) {
-						tags.push(tag);
-					}
-				});
-			}
-		
 		return tags.filter(tag => tag.length > 0);
 	}
 
@@ -227,63 +1140,73 @@ export class MarkdownProcessor {
 	 */
 	private extractImages(content: string): Array<{ name: string; path: string }> {
 		const images: Array<{ name: string; path: string }> = [];
-		const imageSet = new Set<string>(); // 用于去重
-
-		// 匹配所有可能的图片格式
-		const patterns = [
-			// 标准 Markdown
-			/!\[([^\]]*)\]\(([^)]+)\)/g,
-			// Obsidian 格式
-			/!\[\[([^\]|]+)(\.[^\]]*)\]\]/g,
-			// Obsidian 带标题格式
-			/!\[\[([^\]|]+)\|([^\]]+)\]\]/g,
-			// HTML <img> 标签
-			/<img[^>]+src=["']([^"']+)["'][^>]*>/g
-		];
-
-		for (const pattern of patterns) {
-			let match;
-			while ((match = pattern.exec(content)) !== null) {
-				// 获取图片路径（根据不同格式，路径可能在不同的捕获组中）
-				let path = match[1];
-				if (pattern.source.includes('!\\[\\[')) {
-					// Obsidian 格式，路径在第一个捕获组
-					path = match[1];
-				} else if (pattern.source.includes('img')) {
-					// HTML 格式，路径在第一个捕获组
-					path = match[1];
-				} else {
-					// 标准 Markdown 格式，路径在第二个捕获组
-					path = match[2];
-				}
+		const pattern = new RegExp(IMAGE_REFERENCE_REGEX);
 
-				// 跳过外部链接
-				if (path.startsWith('http://') || path.startsWith('https://') || path.startsWith('data:')) {
+		let match;
+		while ((match = pattern.exec(content)) !== null) {
+			// 获取图片路径（根据不同格式，路径在不同的捕获组中）
+			let reference: string;
+			if (match[1] !== undefined) {
+				// Obsidian 格式，只处理图片文件（附件嵌入由 extractAttachments 处理）
+				reference = match[1].split('#')[0];
+				if (!IMAGE_EXTENSION_REGEX.test(reference.trim())) {
 					continue;
 				}
-
-				// 处理路径
-				path = this.normalizeImagePath(path);
-				
-				// 去重处理
-				if (imageSet.has(path)) {
+			} else if (match[4] !== undefined) {
+				// 标准 Markdown 格式，去掉标题和尺寸标记
+				reference = this.splitImageTarget(match[4]).url;
+			} else {
+				// HTML 格式
+				const src = match[0].match(/\ssrc=(["'])([^"']+)\1/i);
+				if (!src) {
 					continue;
 				}
-				imageSet.add(path);
+				reference = src[2];
+			}
 
-				// 获取文件名
-				const fileName = path.split('/').pop() || path;
-				
-				images.push({
-					name: fileName,
-					path: path
-				});
+			// 跳过外部链接
+			if (this.isExternalUrl(reference)) {
+				continue;
 			}
+
+			// 处理路径并去重
+			const path = this.normalizeImagePath(reference);
+			if (!path || images.some(image => image.path === path)) {
+				continue;
+			}
+
+			images.push({
+				name: path.split('/').pop() || path,
+				path
+			});
 		}
 
 		return images;
 	}
 
+	/**
+	 * Extract attachments (non-image files in the allowlist) linked or embedded with wikilinks
+	 */
+	private extractAttachments(content: string): Array<{ name: string; path: string }> {
+		const attachments: Array<{ name: string; path: string }> = [];
+		const pattern = /!?\[\[([^\]|]+?)(\|[^\]]+)?\]\]/g;
+
+		let match;
+		while ((match = pattern.exec(content)) !== null) {
+			const path = this.normalizeImagePath(match[1]);
+			if (!this.isAttachmentLink(path) || attachments.some(attachment => attachment.path === path)) {
+				continue;
+			}
+
+			attachments.push({
+				name: path.split('/').pop() || path,
+				path
+			});
+		}
+
+		return attachments;
+	}
+
 	/**
 	 * 规范化图片路径
 	 */
@@ -302,6 +1225,13 @@ export class MarkdownProcessor {
 		
 		// 移除查询参数和哈希
 		path = path.split('?')[0].split('#')[0];
+
+		// Markdown 链接中的空格等字符通常经过 URL 编码（例如 My%20Image.png）
+		try {
+			path = decodeURI(path);
+		} catch {
+			// 不是有效的 URL 编码，保持原样
+		}
 		
 		return path;
 	}
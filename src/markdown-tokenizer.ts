@@ -0,0 +1,231 @@
+export interface MarkdownBlock {
+	type: 'text' | 'code' | 'html';
+	text: string;
+	// 围栏代码块的语言（```js 中的 js）
+	language?: string;
+}
+
+export interface CodeSpan {
+	code: boolean;
+	text: string;
+}
+
+// HTML 块（CommonMark 第 6 类）：以这些块级标签开头，到空行结束
+const HTML_BLOCK_TAGS = 'address|article|aside|base|basefont|blockquote|body|caption|center|col|colgroup|dd|details|dialog|dir|div|dl|dt|fieldset|figcaption|figure|footer|form|frame|frameset|h[1-6]|head|header|hr|html|iframe|legend|li|link|main|menu|menuitem|nav|noframes|ol|optgroup|option|p|param|search|section|summary|table|tbody|td|tfoot|th|thead|title|tr|track|ul';
+const HTML_BLOCK_START_REGEX = new RegExp(`^ {0,3}</?(?:${HTML_BLOCK_TAGS})(?:\\s|/?>|$)`, 'i');
+// 第 7 类：单独占一行的完整开始或结束标签，不能打断段落
+const HTML_TAG_LINE_REGEX = /^ {0,3}(?:<[a-zA-Z][\w-]*(?:\s+[a-zA-Z_:][\w.:-]*(?:\s*=\s*(?:[^\s"'=<>`]+|'[^']*'|"[^"]*"))?)*\s*\/?>|<\/[a-zA-Z][\w-]*\s*>)\s*$/;
+// 第 1 类：内容原样保留的标签，到对应的结束标签为止
+const HTML_RAW_START_REGEX = /^ {0,3}<(pre|script|style|textarea)(?:\s|>|$)/i;
+
+const FENCE_REGEX = /^((?:[ \t]*>)*[ \t]*)(`{3,}|~{3,})(.*)$/;
+const LIST_ITEM_REGEX = /^[ \t]*(?:[-+*]|\d+[.)])(?:[ \t]|$)/;
+const FRONTMATTER_REGEX = /^---\r?\n[\s\S]*?\r?\n---[ \t]*(?:\r?\n|$)/;
+
+/**
+ * 把 Markdown 按块拆分为正文、代码块（围栏代码和缩进代码）和 HTML 块
+ * 各块按顺序用 '\n' 连接即为原文；转换只应作用于正文块
+ */
+export function tokenizeMarkdown(content: string): MarkdownBlock[] {
+	const blocks: MarkdownBlock[] = [];
+	const lines = content.split('\n');
+	let text: string[] = [];
+	const push = (block: MarkdownBlock) => {
+		if (text.length > 0) {
+			blocks.push({ type: 'text', text: text.join('\n') });
+			text = [];
+		}
+		blocks.push(block);
+	};
+
+	let i = 0;
+	// frontmatter 按正文处理，其中的空行和缩进不代表代码块
+	const frontmatter = content.match(FRONTMATTER_REGEX);
+	if (frontmatter) {
+		i = frontmatter[0].replace(/\r?\n$/, '').split('\n').length;
+		text = lines.slice(0, i);
+	}
+
+	let previousBlank = true;
+	let inList = false;
+	while (i < lines.length) {
+		const line = lines[i];
+
+		const fence = line.match(FENCE_REGEX);
+		if (fence && !(fence[2][0] === '`' && fence[3].includes('`'))) {
+			const end = findFenceEnd(lines, i, fence[1], fence[2]);
+			push({ type: 'code', text: lines.slice(i, end).join('\n'), language: fence[3].trim().split(/\s+/)[0] });
+			i = end;
+			previousBlank = false;
+			continue;
+		}
+
+		const end = findHtmlBlockEnd(lines, i, previousBlank);
+		if (end !== -1) {
+			push({ type: 'html', text: lines.slice(i, end).join('\n') });
+			i = end;
+			previousBlank = false;
+			continue;
+		}
+
+		// 缩进代码块不能打断段落；列表项之后的缩进内容属于列表项
+		if (previousBlank && !inList && /^(?: {4}|\t)/.test(line) && line.trim()) {
+			let end = i + 1;
+			let last = i;
+			while (end < lines.length && (/^(?: {4}|\t)/.test(lines[end]) || !lines[end].trim())) {
+				if (lines[end].trim()) {
+					last = end;
+				}
+				end++;
+			}
+			push({ type: 'code', text: lines.slice(i, last + 1).join('\n') });
+			i = last + 1;
+			previousBlank = false;
+			continue;
+		}
+
+		if (LIST_ITEM_REGEX.test(line)) {
+			inList = true;
+		} else if (previousBlank && line.trim() && !/^[ \t]/.test(line)) {
+			inList = false;
+		}
+		previousBlank = !line.trim();
+		text.push(line);
+		i++;
+	}
+
+	if (text.length > 0 || blocks.length === 0) {
+		blocks.push({ type: 'text', text: text.join('\n') });
+	}
+	return blocks;
+}
+
+/**
+ * 围栏代码块结束后的下一行：相同字符且不短于开始标记的结束行；
+ * 引用块中的代码块在引用结束时结束，未闭合的代码块延续到文末
+ */
+function findFenceEnd(lines: string[], start: number, prefix: string, marker: string): number {
+	const depth = countQuoteMarkers(prefix);
+	for (let i = start + 1; i < lines.length; i++) {
+		const linePrefix = lines[i].match(/^(?:[ \t]*>)*/)?.[0] || '';
+		if (depth > 0 && countQuoteMarkers(linePrefix) < depth) {
+			return i;
+		}
+		const closing = lines[i].substring(linePrefix.length).trim();
+		if (closing.length >= marker.length && closing[0] === marker[0] && /^(`+|~+)$/.test(closing)) {
+			return i + 1;
+		}
+	}
+	return lines.length;
+}
+
+function countQuoteMarkers(prefix: string): number {
+	return (prefix.match(/>/g) || []).length;
+}
+
+/**
+ * 从 start 行开始的 HTML 块结束后的下一行，不是 HTML 块时返回 -1
+ */
+function findHtmlBlockEnd(lines: string[], start: number, previousBlank: boolean): number {
+	const line = lines[start];
+	const untilLineContaining = (pattern: RegExp) => {
+		for (let i = start; i < lines.length; i++) {
+			if (pattern.test(i === start ? line.replace(/^\s*<!--/, '') : lines[i])) {
+				return i + 1;
+			}
+		}
+		return lines.length;
+	};
+
+	const raw = line.match(HTML_RAW_START_REGEX);
+	if (raw) {
+		return untilLineContaining(new RegExp(`</${raw[1]}>`, 'i'));
+	}
+	if (/^ {0,3}<!--/.test(line)) {
+		return untilLineContaining(/-->/);
+	}
+	if (HTML_BLOCK_START_REGEX.test(line) || (previousBlank && HTML_TAG_LINE_REGEX.test(line))) {
+		let end = start + 1;
+		while (end < lines.length && lines[end].trim()) {
+			end++;
+		}
+		return end;
+	}
+	return -1;
+}
+
+/**
+ * 把正文拆分为行内代码（`code`、``code``）和其他文本；
+ * 行内代码可以跨行但不能跨段落，没有配对的反引号按普通文本处理
+ */
+export function splitCodeSpans(text: string): CodeSpan[] {
+	const spans: CodeSpan[] = [];
+	const pushText = (value: string) => {
+		if (value) {
+			spans.push({ code: false, text: value });
+		}
+	};
+
+	let last = 0;
+	let index = 0;
+	while (index < text.length) {
+		const open = text.indexOf('`', index);
+		if (open === -1) {
+			break;
+		}
+
+		// 转义的反引号不开始行内代码
+		let run = open;
+		while (text[run] === '`') {
+			run++;
+		}
+		if (isEscaped(text, open)) {
+			index = open + 1;
+			continue;
+		}
+
+		const marker = text.substring(open, run);
+		const close = findClosingBackticks(text, run, marker.length);
+		if (close === -1) {
+			index = run;
+			continue;
+		}
+
+		pushText(text.substring(last, open));
+		spans.push({ code: true, text: text.substring(open, close + marker.length) });
+		last = index = close + marker.length;
+	}
+	pushText(text.substring(last));
+
+	return spans;
+}
+
+function findClosingBackticks(text: string, from: number, length: number): number {
+	const paragraphEnd = text.substring(from).search(/\n[ \t>]*\n/);
+	const limit = paragraphEnd === -1 ? text.length : from + paragraphEnd;
+	let index = from;
+	while (index < limit) {
+		const next = text.indexOf('`', index);
+		if (next === -1 || next >= limit) {
+			return -1;
+		}
+
+		let run = next;
+		while (text[run] === '`') {
+			run++;
+		}
+		if (run - next === length) {
+			return next;
+		}
+		index = run;
+	}
+	return -1;
+}
+
+function isEscaped(text: string, index: number): boolean {
+	let backslashes = 0;
+	while (index - backslashes - 1 >= 0 && text[index - backslashes - 1] === '\\') {
+		backslashes++;
+	}
+	return backslashes % 2 === 1;
+}
@@ -0,0 +1,317 @@
+import { App, Modal, Notice, Setting, TFile } from 'obsidian';
+import NoteToWikiJSPlugin from '../main';
+import { MarkdownProcessor } from './markdown-processor';
+import { WikiJSAPI } from './wikijs-api';
+import { WikiJSNavigationItem, WikiJSNavigationMode, WikiJSNavigationTree } from './types';
+
+type NavigationUpdate = 'merge' | 'replace';
+
+// 已发布笔记在导航中的信息
+interface NavigationEntry {
+	folder: string;
+	title: string;
+	order?: number;
+	path: string;
+	locale: string;
+}
+
+/**
+ * NavigationGenerator - 根据已发布笔记的文件夹结构生成 Wiki.js 导航菜单
+ * Wiki.js 的导航只有一层：每个文件夹生成一个标题，其中的页面生成链接，
+ * 页面按 frontmatter 中的 nav_order 排序，其余按标题排序
+ */
+export class NavigationGenerator {
+	private app: App;
+	private plugin: NoteToWikiJSPlugin;
+
+	constructor(app: App, plugin: NoteToWikiJSPlugin) {
+		this.app = app;
+		this.plugin = plugin;
+	}
+
+	async open() {
+		if (!this.plugin.settings.wikiUrl || !this.plugin.settings.apiToken) {
+			this.plugin.showNotice('Please configure Wiki.js settings first (URL and API Token)');
+			return;
+		}
+
+		const entries = await this.collectEntries();
+		if (entries.length === 0) {
+			new Notice('No published notes to add to the navigation');
+			return;
+		}
+
+		const api = new WikiJSAPI(this.plugin.settings);
+		const navigation = await api.getNavigation();
+		if (!navigation) {
+			new Notice('Failed to load the wiki.js navigation');
+			return;
+		}
+
+		new NavigationModal(this.app, entries, navigation.tree, navigation.mode, (tree, switchMode) => {
+			void this.save(api, tree, switchMode);
+		}).open();
+	}
+
+	/**
+	 * 同步记录中仍存在于 vault 的笔记
+	 */
+	private async collectEntries(): Promise<NavigationEntry[]> {
+		const processor = new MarkdownProcessor(this.plugin.settings);
+		const entries: NavigationEntry[] = [];
+
+		for (const [notePath, record] of this.plugin.syncRegistry.entries()) {
+			const file = this.app.vault.getAbstractFileByPath(notePath);
+			if (!(file instanceof TFile)) {
+				continue;
+			}
+
+			const content = await this.app.vault.cachedRead(file);
+			const navOrder = processor.parseFrontmatter(content)['nav_order'];
+			const order = typeof navOrder === 'number' || typeof navOrder === 'string' ? parseFloat(String(navOrder)) : NaN;
+			entries.push({
+				folder: file.parent && file.parent.path !== '/' ? file.parent.path : '',
+				title: processor.extractPageMetadata(content).title || file.basename,
+				order: isFinite(order) ? order : undefined,
+				path: record.path.replace(/^\/+/, ''),
+				locale: record.locale
+			});
+		}
+
+		return entries;
+	}
+
+	private async save(api: WikiJSAPI, tree: WikiJSNavigationTree[], switchMode: boolean) {
+		const result = await api.updateNavigation(tree);
+		if (!result.succeeded) {
+			new Notice(`Failed to update wiki.js navigation: ${result.message}`, 10000);
+			return;
+		}
+
+		if (switchMode) {
+			const modeResult = await api.updateNavigationMode('MIXED');
+			if (!modeResult.succeeded) {
+				new Notice(`Navigation updated, but the navigation mode could not be changed: ${modeResult.message}`, 10000);
+				return;
+			}
+		}
+		new Notice('Wiki.js navigation updated');
+	}
+}
+
+/**
+ * 生成 rootFolder 及其子文件夹中笔记的导航项，按语言分组
+ */
+function buildNavigation(entries: NavigationEntry[], rootFolder: string): Map<string, WikiJSNavigationItem[]> {
+	const byLocale = new Map<string, Map<string, NavigationEntry[]>>();
+	for (const entry of entries) {
+		if (rootFolder && entry.folder !== rootFolder && !entry.folder.startsWith(`${rootFolder}/`)) {
+			continue;
+		}
+		const folders = byLocale.get(entry.locale) || new Map<string, NavigationEntry[]>();
+		folders.set(entry.folder, [...(folders.get(entry.folder) || []), entry]);
+		byLocale.set(entry.locale, folders);
+	}
+
+	const navigation = new Map<string, WikiJSNavigationItem[]>();
+	byLocale.forEach((folders, locale) => {
+		const items: WikiJSNavigationItem[] = [];
+		// 根文件夹中的页面在最前面，不加标题
+		const folderPaths = Array.from(folders.keys()).sort((a, b) => a === rootFolder ? -1 : b === rootFolder ? 1 : a.localeCompare(b));
+		for (const folder of folderPaths) {
+			if (folder !== rootFolder) {
+				const label = (rootFolder ? folder.substring(rootFolder.length + 1) : folder).split('/').join(' / ');
+				items.push({ ...createItem('header'), label });
+			}
+
+			const pages = (folders.get(folder) || []).sort((a, b) => {
+				if (a.order !== undefined || b.order !== undefined) {
+					return a.order === undefined ? 1 : b.order === undefined ? -1 : a.order - b.order;
+				}
+				return a.title.localeCompare(b.title);
+			});
+			for (const page of pages) {
+				items.push({
+					...createItem('link'),
+					label: page.title,
+					icon: 'mdi-chevron-right',
+					targetType: 'page',
+					target: `/${page.locale}/${page.path}`
+				});
+			}
+		}
+		navigation.set(locale, items);
+	});
+
+	return navigation;
+}
+
+/**
+ * 把生成的导航项合并到现有导航中：已有的链接不重复添加，
+ * 同名标题下的新链接插入到该标题的末尾，新的标题追加到最后，根文件夹的页面插入到第一个标题之前
+ */
+function mergeNavigation(existing: WikiJSNavigationItem[], generated: WikiJSNavigationItem[]): WikiJSNavigationItem[] {
+	const items = [...existing];
+	const targets = new Set(existing.filter(item => item.kind === 'link').map(item => item.target));
+
+	let header: WikiJSNavigationItem | null = null;
+	let group: WikiJSNavigationItem[] = [];
+	const flush = () => {
+		const links = group.filter(item => !targets.has(item.target));
+		group = [];
+		if (!header) {
+			const firstHeader = items.findIndex(item => item.kind === 'header');
+			items.splice(firstHeader === -1 ? items.length : firstHeader, 0, ...links);
+			return;
+		}
+
+		const label = header.label;
+		const index = items.findIndex(item => item.kind === 'header' && item.label === label);
+		if (index === -1) {
+			if (links.length > 0) {
+				items.push(header, ...links);
+			}
+			return;
+		}
+		let end = index + 1;
+		while (end < items.length && items[end].kind === 'link') {
+			end++;
+		}
+		items.splice(end, 0, ...links);
+	};
+
+	for (const item of generated) {
+		if (item.kind === 'header') {
+			flush();
+			header = item;
+		} else {
+			group.push(item);
+		}
+	}
+	flush();
+
+	return items;
+}
+
+function createItem(kind: WikiJSNavigationItem['kind']): WikiJSNavigationItem {
+	// Wiki.js 使用 UUID 作为导航项 ID
+	const id = 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, char => {
+		const random = Math.floor(Math.random() * 16);
+		return (char === 'x' ? random : (random & 0x3) | 0x8).toString(16);
+	});
+	return { id, kind, visibilityMode: 'all', visibilityGroups: [] };
+}
+
+// Navigation Preview Modal
+class NavigationModal extends Modal {
+	private entries: NavigationEntry[];
+	private tree: WikiJSNavigationTree[];
+	private mode: WikiJSNavigationMode;
+	private onConfirm: (tree: WikiJSNavigationTree[], switchMode: boolean) => void;
+	private rootFolder = '';
+	private update: NavigationUpdate = 'merge';
+	private switchMode: boolean;
+
+	constructor(app: App, entries: NavigationEntry[], tree: WikiJSNavigationTree[], mode: WikiJSNavigationMode, onConfirm: (tree: WikiJSNavigationTree[], switchMode: boolean) => void) {
+		super(app);
+		this.entries = entries;
+		this.tree = tree;
+		this.mode = mode;
+		this.onConfirm = onConfirm;
+		// 只有 STATIC 和 MIXED 模式会在侧边栏显示导航菜单
+		this.switchMode = mode !== 'STATIC' && mode !== 'MIXED';
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl('h2', { text: 'Generate wiki.js navigation' });
+
+		// 包含已发布笔记的文件夹（以及它们的上级文件夹）
+		const folders = new Set<string>();
+		for (const entry of this.entries) {
+			const parts = entry.folder ? entry.folder.split('/') : [];
+			parts.forEach((part, index) => folders.add(parts.slice(0, index + 1).join('/')));
+		}
+
+		new Setting(contentEl)
+			.setName('Folder')
+			.setDesc('Published notes in this folder and its subfolders are added')
+			.addDropdown(dropdown => {
+				dropdown.addOption('', 'All published notes');
+				Array.from(folders).sort().forEach(folder => dropdown.addOption(folder, folder));
+				dropdown
+					.setValue(this.rootFolder)
+					.onChange(value => {
+						this.rootFolder = value;
+						render();
+					});
+			});
+
+		new Setting(contentEl)
+			.setName('Existing navigation')
+			.addDropdown(dropdown => dropdown
+				.addOption('merge', 'Merge (keep existing items)')
+				.addOption('replace', 'Replace')
+				.setValue(this.update)
+				.onChange(value => {
+					this.update = value as NavigationUpdate;
+					render();
+				}));
+
+		if (this.switchMode) {
+			new Setting(contentEl)
+				.setName('Show navigation in the sidebar')
+				.setDesc(`The wiki.js navigation mode is ${this.mode}, which does not show the navigation menu. Switch to custom navigation (site tree and menu).`)
+				.addToggle(toggle => toggle
+					.setValue(this.switchMode)
+					.onChange(value => this.switchMode = value));
+		}
+
+		const previewEl = contentEl.createDiv('wikijs-nav-preview');
+		let result: WikiJSNavigationTree[] = [];
+		const render = () => {
+			const generated = buildNavigation(this.entries, this.rootFolder);
+			const generatedIds = new Set<string>();
+			generated.forEach(items => items.forEach(item => generatedIds.add(item.id)));
+
+			result = this.tree.map(locale => ({ locale: locale.locale, items: [...locale.items] }));
+			generated.forEach((items, locale) => {
+				let localeTree = result.find(existing => existing.locale === locale);
+				if (!localeTree) {
+					localeTree = { locale, items: [] };
+					result.push(localeTree);
+				}
+				localeTree.items = this.update === 'replace' ? items : mergeNavigation(localeTree.items, items);
+			});
+
+			previewEl.empty();
+			generated.forEach((items, locale) => {
+				previewEl.createEl('h4', { text: `Locale: ${locale}` });
+				const list = previewEl.createDiv('wikijs-nav-items');
+				for (const item of result.find(existing => existing.locale === locale)?.items || []) {
+					const itemEl = list.createDiv(`wikijs-nav-item wikijs-nav-${item.kind}`);
+					itemEl.toggleClass('wikijs-nav-new', generatedIds.has(item.id));
+					itemEl.setText(item.kind === 'divider' ? '—' : item.kind === 'link' ? `${item.label} → ${item.target}` : item.label || '');
+				}
+			});
+		};
+		render();
+
+		const buttonDiv = contentEl.createDiv('modal-button-container');
+		const cancelButton = buttonDiv.createEl('button', { text: 'Cancel' });
+		cancelButton.onclick = () => this.close();
+
+		const saveButton = buttonDiv.createEl('button', { text: 'Save navigation', cls: 'mod-cta' });
+		saveButton.onclick = () => {
+			this.close();
+			this.onConfirm(result, this.switchMode);
+		};
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
@@ -0,0 +1,464 @@
+import { App, TFile } from 'obsidian';
+import NoteToWikiJSPlugin from '../main';
+import { MarkdownProcessor } from './markdown-processor';
+import { WikiJSAPI } from './wikijs-api';
+import { ImageTagProcessor } from './image-tag-processor';
+import { UploadResult, WikiJSPage, WikiJSAsset, PagePublishing } from './types';
+import { hashContent } from './hash';
+
+export interface PageFields extends PagePublishing {
+	path: string;
+	title: string;
+	description?: string;
+	tags: string[];
+	locale: string;
+}
+
+export interface ImageUploadReport {
+	uploaded: string[];
+	skipped: string[];
+	failed: Array<{ name: string; message: string }>;
+	hashes: Record<string, string>;
+	// 图片引用路径 -> 上传后资源文件的地址，用于 MarkdownProcessor 改写图片引用
+	urls: Record<string, string>;
+}
+
+export interface NoteUploadReport {
+	result: UploadResult;
+	created: boolean;
+	skipped: boolean;
+	images: ImageUploadReport;
+	unresolvedLinks: string[];
+	// 页面在上次上传后在 Wiki.js 上被修改过，或同一路径上有不是由此笔记上传的页面，未覆盖
+	conflict?: boolean;
+}
+
+/**
+ * NoteUploader - 单个笔记的上传流程（图片、页面创建/更新、同步记录）
+ * 供上传弹窗和批量上传共用
+ */
+export class NoteUploader {
+	private app: App;
+	private plugin: NoteToWikiJSPlugin;
+	private api: WikiJSAPI;
+	private processor: MarkdownProcessor;
+	private imageProcessor: ImageTagProcessor;
+
+	constructor(app: App, plugin: NoteToWikiJSPlugin) {
+		this.app = app;
+		this.plugin = plugin;
+		this.api = new WikiJSAPI(plugin.settings);
+		this.processor = new MarkdownProcessor(plugin.settings, app, plugin.syncRegistry);
+		this.imageProcessor = new ImageTagProcessor(app);
+	}
+
+	/**
+	 * 查找笔记对应的现有页面：优先使用同步记录中的页面 ID，其次按路径查找
+	 */
+	async findExistingPage(file: TFile, path: string, locale: string): Promise<WikiJSPage | null> {
+		const record = this.plugin.syncRegistry.get(file.path);
+		if (record) {
+			const page = await this.api.getPageById(record.pageId);
+			if (page) {
+				return page;
+			}
+		}
+
+		try {
+			console.debug('Checking if page exists at path:', path);
+			return await this.api.getPageByPath(path, locale);
+		} catch {
+			// Page doesn't exist
+			return null;
+		}
+	}
+
+	/**
+	 * 上传笔记引用的图片和附件到与页面路径对应的资源文件夹，
+	 * 内容与上次上传相同的文件会被跳过
+	 */
+	async uploadImages(file: TFile, images: Array<{ name: string; path: string }>, pagePath: string): Promise<ImageUploadReport> {
+		const report: ImageUploadReport = { uploaded: [], skipped: [], failed: [], hashes: {}, urls: {} };
+		const previousHashes = this.plugin.syncRegistry.get(file.path)?.assetHashes || {};
+		const folderPath = pagePath.replace(/^\/+|\/+$/g, '');
+
+		// 在上传图片前，先根据页面路径创建文件夹结构，并获取精确的文件夹 ID
+		let targetFolderId = 0;
+		try {
+			targetFolderId = await this.api.ensureAssetFolderPath(this.processor.getAssetFolderPath(pagePath));
+			console.debug(`Asset folder prepared, folderId: ${targetFolderId}`);
+		} catch (error) {
+			console.warn('Failed to create asset folder structure:', error);
+			// 继续执行，使用根目录
+			targetFolderId = 0;
+		}
+
+		// 列出文件夹中已有的文件，只上传缺少或有变化的文件；
+		// 无法读取时不上传，避免把已有的文件重复上传一份
+		let existingAssets: WikiJSAsset[];
+		try {
+			existingAssets = await this.api.getAssets(targetFolderId);
+		} catch (error) {
+			images.forEach(image => report.failed.push({ name: image.name, message: error.message }));
+			return report;
+		}
+
+		// 使用 ImageTagProcessor 批量解析图片文件
+		const imageFileMap = this.imageProcessor.resolveImageFiles(images, file);
+		// 已存在于 Wiki.js 中的图片（上传成功或内容未变化），用于生成图片地址
+		const availableImages = new Map<string, TFile>();
+
+		for (const image of images) {
+			try {
+				console.debug('Processing image:', image.name, 'Original path:', image.path);
+
+				const imageFile = imageFileMap.get(image.path);
+
+				if (imageFile instanceof TFile) {
+					console.debug('Found file:', imageFile.path, 'File name:', imageFile.name);
+
+					// 防止误将过大的文件发布到 Wiki.js
+					const maxUploadSize = this.plugin.settings.maxUploadSize;
+					if (maxUploadSize > 0 && imageFile.stat.size > maxUploadSize * 1024 * 1024) {
+						report.failed.push({ name: imageFile.name, message: `File is larger than the ${maxUploadSize} MB upload limit` });
+						continue;
+					}
+
+					const arrayBuffer = await this.app.vault.readBinary(imageFile);
+					const assetKey = `${folderPath}/${imageFile.name}`;
+					const hash = await hashContent(arrayBuffer);
+					if (report.hashes[assetKey]) {
+						// 同一图片在笔记中以不同的路径被引用多次
+						availableImages.set(image.path, imageFile);
+						continue;
+					}
+
+					// Wiki.js 保存的文件名经过规范化，按规范化后的文件名查找已有文件
+					const assetFileName = this.processor.normalizeAssetFileName(imageFile.name);
+					const existingAsset = existingAssets.find(asset => asset.filename.toLowerCase() === assetFileName);
+					if (existingAsset) {
+						// 上传过的文件按内容摘要比较，其他文件只能按大小比较
+						const previousHash = previousHashes[assetKey];
+						const unchanged = previousHash !== undefined
+							? previousHash === hash
+							: existingAsset.fileSize === arrayBuffer.byteLength;
+						if (unchanged) {
+							report.hashes[assetKey] = hash;
+							report.skipped.push(imageFile.name);
+							availableImages.set(image.path, imageFile);
+							console.debug(`Skipping unchanged image: ${imageFile.name}`);
+							continue;
+						}
+
+						// 不是由本插件上传的同名文件，只有开启替换选项时才覆盖
+						if (previousHash === undefined && !this.plugin.settings.replaceExistingAssets) {
+							report.failed.push({
+								name: imageFile.name,
+								message: `A different file named ${existingAsset.filename} already exists in /${folderPath} (enable "Replace existing assets" to overwrite it)`
+							});
+							continue;
+						}
+
+						const deleteResult = await this.api.deleteAsset(existingAsset.id);
+						if (!deleteResult.succeeded) {
+							throw new Error(`Could not replace ${existingAsset.filename}: ${deleteResult.message}`);
+						}
+					}
+
+					// 上传图片到 Wiki.js，使用实际文件的完整文件名（包含扩展名）
+					await this.api.uploadAsset(imageFile.name, arrayBuffer, targetFolderId);
+
+					report.hashes[assetKey] = hash;
+					report.uploaded.push(imageFile.name);
+					availableImages.set(image.path, imageFile);
+					console.debug(`✅ Successfully uploaded: ${imageFile.name}`);
+				} else {
+					console.error(`File not found: ${image.name} (path: ${image.path})`);
+					report.failed.push({ name: image.name, message: 'Image file not found' });
+				}
+			} catch (error) {
+				console.error(`Failed to upload image ${image.name}:`, error);
+				report.failed.push({ name: image.name, message: error.message });
+			}
+		}
+
+		// 以服务器实际保存的文件名生成图片地址（Wiki.js 会规范化文件名）
+		// 重新读取失败时按规范化后的文件名生成地址
+		const assets = report.uploaded.length > 0 ? await this.api.getAssets(targetFolderId).catch(() => existingAssets) : existingAssets;
+		const assetFolder = targetFolderId ? pagePath : '';
+		availableImages.forEach((imageFile, imagePath) => {
+			const assetFileName = this.processor.normalizeAssetFileName(imageFile.name);
+			const asset = assets.find(existing => existing.filename.toLowerCase() === assetFileName);
+			report.urls[imagePath] = this.processor.getAssetUrl(asset ? asset.filename : assetFileName, assetFolder);
+		});
+
+		return report;
+	}
+
+	/**
+	 * 不上传文件，按资源文件夹中已有的文件生成图片地址（与 uploadImages 返回的地址一致），
+	 * 用于上传前判断内容是否变化和显示差异；读取失败时返回已得到的部分
+	 */
+	async getKnownAssetUrls(file: TFile, images: Array<{ name: string; path: string }>, pagePath: string): Promise<Record<string, string>> {
+		const urls: Record<string, string> = {};
+		try {
+			const folderId = await this.api.findAssetFolderPath(this.processor.getAssetFolderPath(pagePath));
+			if (!folderId) {
+				return urls;
+			}
+
+			const assets = await this.api.getAssets(folderId);
+			this.imageProcessor.resolveImageFiles(images, file).forEach((imageFile, imagePath) => {
+				const assetFileName = this.processor.normalizeAssetFileName(imageFile.name);
+				const asset = assets.find(existing => existing.filename.toLowerCase() === assetFileName);
+				if (asset) {
+					urls[imagePath] = this.processor.getAssetUrl(asset.filename, pagePath);
+				}
+			});
+		} catch (error) {
+			console.warn('Failed to read the asset folder:', error);
+		}
+		return urls;
+	}
+
+	/**
+	 * 页面是否在上次上传后在 Wiki.js 上被修改过（页面的 updatedAt 与同步记录不同）
+	 */
+	isRemoteChanged(file: TFile, existingPage: WikiJSPage | null): boolean {
+		const record = this.plugin.syncRegistry.get(file.path);
+		return !!(record && existingPage && record.pageId === Number(existingPage.id)
+			&& record.updatedAt && existingPage.updatedAt && existingPage.updatedAt !== record.updatedAt);
+	}
+
+	/**
+	 * 页面内容和字段是否与上次上传时相同（内容按转换后的 Markdown 摘要比较，
+	 * 发布状态与页面当前的状态比较）
+	 */
+	async isUnchanged(file: TFile, fields: PageFields, content: string, existingPage: WikiJSPage | null): Promise<boolean> {
+		const record = this.plugin.syncRegistry.get(file.path);
+		if (!record || !existingPage || record.pageId !== Number(existingPage.id)) {
+			return false;
+		}
+
+		if (record.contentHash !== await hashContent(content)
+			|| record.path !== fields.path
+			|| record.locale !== fields.locale
+			|| record.title !== fields.title
+			|| (record.description || '') !== (fields.description || '')
+			|| (record.tags || []).join(',') !== fields.tags.join(',')) {
+			return false;
+		}
+
+		// 未指定的发布字段表示保持页面当前的状态
+		return (fields.isPublished === undefined || fields.isPublished === existingPage.isPublished)
+			&& (fields.isPrivate === undefined || fields.isPrivate === existingPage.isPrivate)
+			&& this.isSameDate(fields.publishStartDate, existingPage.publishStartDate)
+			&& this.isSameDate(fields.publishEndDate, existingPage.publishEndDate);
+	}
+
+	private isSameDate(local: string | undefined, remote: string | undefined): boolean {
+		if (local === undefined) {
+			return true;
+		}
+		if (!local || !remote) {
+			return !local && !remote;
+		}
+		return new Date(local).getTime() === new Date(remote).getTime();
+	}
+
+	/**
+	 * 创建或更新页面，成功后写入同步记录
+	 */
+	async savePage(file: TFile, fields: PageFields, content: string, existingPage: WikiJSPage | null, images?: ImageUploadReport): Promise<UploadResult> {
+		let result: UploadResult;
+		if (existingPage) {
+			const pageId = Number(existingPage.id);
+			if (isNaN(pageId)) {
+				return { success: false, message: `Invalid page ID: ${existingPage.id}` };
+			}
+			result = await this.api.updatePage(
+				pageId,
+				fields.path,
+				fields.title,
+				content,
+				fields.description,
+				fields.tags,
+				fields.locale,
+				this.getPublishing(fields)
+			);
+		} else {
+			result = await this.api.createPage(
+				fields.path,
+				fields.title,
+				content,
+				fields.description,
+				fields.tags,
+				fields.locale,
+				this.getPublishing(fields)
+			);
+		}
+
+		if (result.success && result.pageId) {
+			await this.plugin.syncRegistry.set(file.path, {
+				pageId: result.pageId,
+				path: fields.path,
+				locale: result.locale || fields.locale,
+				contentHash: await hashContent(content),
+				updatedAt: result.updatedAt || '',
+				title: fields.title,
+				description: fields.description,
+				tags: fields.tags,
+				assetHashes: this.mergeAssetHashes(file, fields.path, images)
+			});
+		}
+
+		return result;
+	}
+
+	/**
+	 * 页面未更新时单独保存本次上传的图片摘要
+	 */
+	async savePageImages(file: TFile, pagePath: string, images: ImageUploadReport) {
+		const record = this.plugin.syncRegistry.get(file.path);
+		if (record && images.uploaded.length > 0) {
+			await this.plugin.syncRegistry.set(file.path, { ...record, assetHashes: this.mergeAssetHashes(file, pagePath, images) });
+		}
+	}
+
+	/**
+	 * 合并上次记录的和本次上传的资源摘要，只保留当前页面资源文件夹中的文件
+	 */
+	private mergeAssetHashes(file: TFile, pagePath: string, images?: ImageUploadReport): Record<string, string> {
+		const folderPath = pagePath.replace(/^\/+|\/+$/g, '');
+		const previousHashes = this.plugin.syncRegistry.get(file.path)?.assetHashes || {};
+		const assetHashes: Record<string, string> = {};
+		Object.entries({ ...previousHashes, ...images?.hashes }).forEach(([assetKey, hash]) => {
+			if (assetKey.startsWith(`${folderPath}/`)) {
+				assetHashes[assetKey] = hash;
+			}
+		});
+		return assetHashes;
+	}
+
+	private getPublishing(fields: PageFields): PagePublishing {
+		return {
+			isPublished: fields.isPublished,
+			isPrivate: fields.isPrivate,
+			publishStartDate: fields.publishStartDate,
+			publishEndDate: fields.publishEndDate
+		};
+	}
+
+	/**
+	 * 不经过弹窗直接上传笔记（批量上传、自动同步使用），
+	 * 未指定字段时由笔记内容和同步记录推导；keepRemoteChanges 为 true 时不覆盖在 Wiki.js 上被修改过的页面，
+	 * 也不覆盖同一路径上不是由此笔记上传的页面（这些情况需要在上传对话框中查看差异后确认）
+	 */
+	async uploadNote(file: TFile, getFields?: (content: string) => PageFields, keepRemoteChanges = false): Promise<NoteUploadReport> {
+		const content = await this.app.vault.read(file);
+		const fields = getFields ? getFields(content) : this.getDefaultFields(file, content);
+		const expanded = await this.processor.expandNoteEmbeds(content, file);
+		let processed = this.processor.processMarkdown(expanded, file.name, fields.path, file);
+
+		const existingPage = await this.findExistingPage(file, fields.path, fields.locale);
+		let images: ImageUploadReport = { uploaded: [], skipped: [], failed: [], hashes: {}, urls: {} };
+		if (keepRemoteChanges && existingPage) {
+			const record = this.plugin.syncRegistry.get(file.path);
+			let message: string | null = null;
+			if (!record || record.pageId !== Number(existingPage.id)) {
+				message = `A page that was not uploaded from this note already exists at /${existingPage.path}`;
+			} else if (this.isRemoteChanged(file, existingPage)) {
+				message = `The page was edited on wiki.js since the last upload (${existingPage.updatedAt})`;
+			}
+			if (message) {
+				const result: UploadResult = { success: false, message };
+				return { result, created: false, skipped: false, images, unresolvedLinks: processed.unresolvedLinks, conflict: true };
+			}
+		}
+
+		const assets = [...processed.images, ...processed.attachments];
+		if (assets.length > 0) {
+			images = await this.uploadImages(file, assets, fields.path);
+			// 图片引用改写为实际上传的资源地址
+			processed = this.processor.processMarkdown(expanded, file.name, fields.path, file, images.urls);
+		}
+
+		// 内容和字段都没有变化时不更新页面，避免在 Wiki.js 中产生多余的历史版本
+		if (existingPage && await this.isUnchanged(file, fields, processed.content, existingPage)) {
+			await this.savePageImages(file, fields.path, images);
+			const result: UploadResult = {
+				success: true,
+				message: 'Page unchanged',
+				pageId: Number(existingPage.id),
+				pageUrl: `${this.plugin.settings.wikiUrl}/${fields.path}`,
+				locale: fields.locale
+			};
+			return { result, created: false, skipped: true, images, unresolvedLinks: processed.unresolvedLinks };
+		}
+
+		const result = await this.savePage(file, fields, processed.content, existingPage, images);
+		return { result, created: !existingPage, skipped: false, images, unresolvedLinks: processed.unresolvedLinks };
+	}
+
+	/**
+	 * 根据笔记 frontmatter、内容和同步记录生成默认的页面字段
+	 */
+	getDefaultFields(file: TFile, content: string): PageFields {
+		const metadata = this.processor.extractPageMetadata(content);
+
+		// frontmatter 中指定的路径优先，其次沿用上次确认的路径
+		const record = this.plugin.syncRegistry.get(file.path);
+		const path = metadata.path || (record ? record.path : this.processor.generatePath(file.name, file.parent?.path, this.processor.getPathContext(file, content)));
+		const processed = this.processor.processMarkdown(content, file.name);
+
+		return {
+			path,
+			title: processed.title,
+			description: metadata.description,
+			tags: this.processor.extractTags(content),
+			locale: this.processor.extractLocale(content, file.name),
+			isPublished: metadata.isPublished,
+			isPrivate: metadata.isPrivate,
+			publishStartDate: metadata.publishStartDate,
+			publishEndDate: metadata.publishEndDate
+		};
+	}
+
+	/**
+	 * 默认路径的来源（frontmatter、上次上传或匹配的路径规则），显示在上传对话框中
+	 */
+	describeDefaultPath(file: TFile, content: string): string {
+		if (this.processor.extractPageMetadata(content).path) {
+			return 'Set in the note\'s frontmatter';
+		}
+		if (this.plugin.syncRegistry.get(file.path)) {
+			return 'Path of the last upload';
+		}
+
+		const mapping = this.processor.matchPathMapping(file.parent?.path);
+		const template = this.processor.getPathTemplate(mapping);
+		return mapping
+			? `Folder rule ${mapping.folder} → /${mapping.path}, template ${template}`
+			: `Path template ${template}`;
+	}
+
+	/**
+	 * 上次确认上传时使用的页面字段（标题、描述、标签），没有记录的字段使用默认值
+	 */
+	getLastConfirmedFields(file: TFile, content: string): PageFields {
+		const fields = this.getDefaultFields(file, content);
+		const record = this.plugin.syncRegistry.get(file.path);
+		if (!record) {
+			return fields;
+		}
+
+		return {
+			...fields,
+			path: record.path,
+			locale: record.locale || fields.locale,
+			title: record.title || fields.title,
+			description: record.description ?? fields.description,
+			tags: record.tags || fields.tags
+		};
+	}
+}
@@ -0,0 +1,203 @@
+import { App, Notice, TAbstractFile, TFile, TFolder } from 'obsidian';
+import NoteToWikiJSPlugin from '../main';
+import { MarkdownProcessor } from './markdown-processor';
+import { WikiJSAPI } from './wikijs-api';
+import { NoteUploader } from './note-uploader';
+import { hashContent } from './hash';
+import { WikiJSAsset } from './types';
+
+/**
+ * PageMover - 将 vault 中的重命名/移动同步到 Wiki.js
+ * 移动页面、把图片上传到新的资源文件夹，并更新其他已发布页面中指向旧路径的链接
+ */
+export class PageMover {
+	private app: App;
+	private plugin: NoteToWikiJSPlugin;
+
+	constructor(app: App, plugin: NoteToWikiJSPlugin) {
+		this.app = app;
+		this.plugin = plugin;
+	}
+
+	async onRename(file: TAbstractFile, oldPath: string) {
+		// 文件夹重命名时，逐个处理其中已发布的笔记
+		if (file instanceof TFolder) {
+			for (const [notePath] of this.plugin.syncRegistry.entries()) {
+				if (notePath.startsWith(`${oldPath}/`)) {
+					const child = this.app.vault.getAbstractFileByPath(file.path + notePath.substring(oldPath.length));
+					if (child instanceof TFile) {
+						await this.onRename(child, notePath);
+					}
+				}
+			}
+			return;
+		}
+
+		if (!(file instanceof TFile) || file.extension !== 'md') {
+			return;
+		}
+
+		const record = this.plugin.syncRegistry.get(oldPath);
+		if (!record) {
+			return;
+		}
+		await this.plugin.syncRegistry.rename(oldPath, file.path);
+
+		if (!this.plugin.settings.syncRenames || !this.plugin.settings.wikiUrl || !this.plugin.settings.apiToken) {
+			return;
+		}
+
+		try {
+			await this.movePublishedNote(file, oldPath);
+		} catch (error) {
+			console.error(`Failed to move wiki page for ${file.path}:`, error);
+			new Notice(`Failed to move wiki.js page for ${file.name}: ${error.message}`);
+		}
+	}
+
+	private async movePublishedNote(file: TFile, oldPath: string) {
+		const record = this.plugin.syncRegistry.get(file.path);
+		if (!record) {
+			return;
+		}
+
+		const processor = new MarkdownProcessor(this.plugin.settings, this.app, this.plugin.syncRegistry);
+		const content = await this.app.vault.read(file);
+
+		// 只有路径是根据笔记位置自动生成的页面才跟随移动；
+		// 手动修改过路径或在 frontmatter 中指定了路径的页面保持不变
+		const oldName = oldPath.split('/').pop() || oldPath;
+		const oldFolder = oldPath.includes('/') ? oldPath.substring(0, oldPath.lastIndexOf('/')) : undefined;
+		const context = processor.getPathContext(file, content);
+		if (processor.extractPageMetadata(content).path || record.path !== processor.generatePath(oldName, oldFolder, context)) {
+			console.debug(`Wiki path of ${file.path} is not derived from its location, not moving`);
+			return;
+		}
+
+		const oldWikiPath = record.path;
+		const newWikiPath = processor.generatePath(file.name, file.parent?.path, context);
+		if (newWikiPath === oldWikiPath) {
+			return;
+		}
+
+		const api = new WikiJSAPI(this.plugin.settings);
+		const moveResult = await api.movePage(record.pageId, newWikiPath, record.locale);
+		if (!moveResult.succeeded) {
+			new Notice(`Failed to move wiki.js page /${oldWikiPath}: ${moveResult.message}`);
+			return;
+		}
+		await this.plugin.syncRegistry.set(file.path, { ...record, path: newWikiPath });
+
+		// Wiki.js 无法移动资源文件夹：把图片上传到新文件夹，再删除旧文件夹中对应的文件
+		const uploader = new NoteUploader(this.app, this.plugin);
+		const processed = processor.processMarkdown(await processor.expandNoteEmbeds(content, file), file.name, newWikiPath, file);
+		const assets = [...processed.images, ...processed.attachments];
+		let assetNames: string[] = [];
+		if (assets.length > 0) {
+			const report = await uploader.uploadImages(file, assets, newWikiPath);
+			await uploader.savePageImages(file, newWikiPath, report);
+			assetNames = [...report.uploaded, ...report.skipped];
+			await this.deleteOldAssets(api, oldWikiPath, assetNames);
+		}
+
+		// 更新页面自身以及其他已发布页面中指向旧路径的链接和图片
+		const rewrite = (notePath: string) => this.rewriteRemoteLinks(api, notePath, oldWikiPath, newWikiPath, assetNames);
+		await rewrite(file.path);
+		const backlinks = Object.entries(this.app.metadataCache.resolvedLinks)
+			.filter(([sourcePath, targets]) => sourcePath !== file.path && targets[file.path])
+			.map(([sourcePath]) => sourcePath);
+		let updatedPages = 0;
+		for (const sourcePath of backlinks) {
+			if (await rewrite(sourcePath)) {
+				updatedPages++;
+			}
+		}
+
+		new Notice(`Moved wiki.js page /${oldWikiPath} → /${newWikiPath}` + (updatedPages > 0 ? ` and updated links on ${updatedPages} pages` : ''));
+	}
+
+	/**
+	 * 删除旧资源文件夹中已重新上传到新文件夹的文件
+	 */
+	private async deleteOldAssets(api: WikiJSAPI, oldWikiPath: string, uploadedNames: string[]) {
+		const processor = new MarkdownProcessor(this.plugin.settings);
+		const oldFolderId = await api.findAssetFolderPath(processor.getAssetFolderPath(oldWikiPath));
+		if (!oldFolderId) {
+			return;
+		}
+
+		const normalizedNames = uploadedNames.map(name => processor.normalizeAssetFileName(name));
+		let assets: WikiJSAsset[];
+		try {
+			assets = await api.getAssets(oldFolderId);
+		} catch (error) {
+			console.warn('Failed to list old assets:', error);
+			return;
+		}
+		for (const asset of assets) {
+			if (normalizedNames.indexOf(asset.filename.toLowerCase()) !== -1) {
+				const result = await api.deleteAsset(asset.id);
+				if (!result.succeeded) {
+					console.warn(`Failed to delete old asset ${asset.filename}:`, result.message);
+				}
+			}
+		}
+	}
+
+	/**
+	 * 将已发布笔记对应页面中指向旧路径的链接，以及指向旧资源文件夹中已迁移文件的地址改为新路径；
+	 * 旧路径下的子页面没有移动，指向它们的链接保持不变
+	 * @returns 页面内容是否被更新
+	 */
+	private async rewriteRemoteLinks(api: WikiJSAPI, notePath: string, oldWikiPath: string, newWikiPath: string, assetNames: string[]): Promise<boolean> {
+		const record = this.plugin.syncRegistry.get(notePath);
+		if (!record) {
+			return false;
+		}
+
+		const page = await api.getPageContent(record.pageId);
+		if (!page || typeof page.content !== 'string') {
+			return false;
+		}
+
+		const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+		const linkRegex = new RegExp(`(\\]\\(|src=["'])/${escape(oldWikiPath)}(?=[)#"'\\s]|$)`, 'gm');
+		let content = page.content.replace(linkRegex, `$1/${newWikiPath}`);
+
+		const processor = new MarkdownProcessor(this.plugin.settings);
+		const names = assetNames.map(name => escape(processor.normalizeAssetFileName(name)));
+		if (names.length > 0) {
+			const assetRegex = new RegExp(`(\\]\\(|src=["'])/${escape(processor.getAssetFolderPath(oldWikiPath))}/(${names.join('|')})(?=[)#?"'\\s]|$)`, 'gmi');
+			content = content.replace(assetRegex, (match, before: string, name: string) => `${before}${processor.getAssetUrl(name, newWikiPath)}`);
+		}
+		if (content === page.content) {
+			return false;
+		}
+
+		const result = await api.updatePage(
+			record.pageId,
+			page.path,
+			page.title,
+			content,
+			page.description,
+			page.tags,
+			page.locale
+		);
+		if (!result.success) {
+			console.warn(`Failed to update links on /${page.path}:`, result.message);
+			return false;
+		}
+
+		// 页面在改写前与同步记录一致时，记录随之更新，避免下次上传时误报页面在 Wiki.js 上被修改；
+		// 否则保留原记录，使他人在 Wiki.js 上的修改仍会在下次上传时提示
+		if (!record.updatedAt || page.updatedAt !== record.updatedAt) {
+			return true;
+		}
+		await this.plugin.syncRegistry.set(notePath, {
+			...record,
+			contentHash: await hashContent(content),
+			updatedAt: result.updatedAt || record.updatedAt
+		});
+		return true;
+	}
+}
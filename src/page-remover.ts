@@ -0,0 +1,234 @@
+import { App, Modal, Notice, Setting, TAbstractFile, TFile, TFolder } from 'obsidian';
+import NoteToWikiJSPlugin from '../main';
+import { WikiJSAPI } from './wikijs-api';
+import { DeletionPolicy, SyncRecord } from './types';
+
+type DeletionAction = Exclude<DeletionPolicy, 'ignore'>;
+
+const DELETION_ACTION_NAMES: Record<DeletionAction, string> = {
+	unpublish: 'Unpublish',
+	archive: 'Move to archive',
+	delete: 'Delete',
+};
+
+/**
+ * PageRemover - 处理已发布笔记被删除后对应的 Wiki.js 页面
+ * 按设置中的删除策略取消发布、移动到归档路径或删除页面，执行前需要用户确认
+ */
+export class PageRemover {
+	private app: App;
+	private plugin: NoteToWikiJSPlugin;
+	// 删除文件夹时会连续触发多个 delete 事件，收集后一起确认
+	private deleted = new Map<string, SyncRecord>();
+	private timer: number | null = null;
+
+	constructor(app: App, plugin: NoteToWikiJSPlugin) {
+		this.app = app;
+		this.plugin = plugin;
+	}
+
+	/**
+	 * 处理 vault 的 delete 事件
+	 */
+	onDelete(file: TAbstractFile) {
+		if (this.plugin.settings.deletionPolicy === 'ignore') {
+			return;
+		}
+
+		for (const [notePath, record] of this.plugin.syncRegistry.entries()) {
+			if (notePath === file.path || (file instanceof TFolder && notePath.startsWith(`${file.path}/`))) {
+				this.deleted.set(notePath, record);
+			}
+		}
+
+		if (this.deleted.size > 0 && this.timer === null) {
+			this.timer = window.setTimeout(() => {
+				this.timer = null;
+				const deleted = new Map(this.deleted);
+				this.deleted.clear();
+				this.confirm(deleted, this.plugin.settings.deletionPolicy as DeletionAction);
+			}, 500);
+		}
+	}
+
+	/**
+	 * 查找同步记录中笔记已不存在的页面（例如插件未运行时删除的笔记），确认后按删除策略处理
+	 */
+	reconcile() {
+		const deleted = new Map<string, SyncRecord>();
+		for (const [notePath, record] of this.plugin.syncRegistry.entries()) {
+			if (!(this.app.vault.getAbstractFileByPath(notePath) instanceof TFile)) {
+				deleted.set(notePath, record);
+			}
+		}
+
+		if (deleted.size === 0) {
+			new Notice('All published notes still exist in the vault');
+			return;
+		}
+
+		const policy = this.plugin.settings.deletionPolicy;
+		this.confirm(deleted, policy === 'ignore' ? 'unpublish' : policy);
+	}
+
+	cancel() {
+		if (this.timer !== null) {
+			window.clearTimeout(this.timer);
+			this.timer = null;
+		}
+		this.deleted.clear();
+	}
+
+	private confirm(deleted: Map<string, SyncRecord>, defaultAction: DeletionAction) {
+		if (!this.plugin.settings.wikiUrl || !this.plugin.settings.apiToken) {
+			return;
+		}
+
+		const modal = new DeletedPagesModal(this.app, deleted, defaultAction, this.plugin.settings.archivePath, (action) => {
+			void this.apply(deleted, action);
+		});
+		modal.open();
+	}
+
+	private async apply(deleted: Map<string, SyncRecord>, action: DeletionAction) {
+		const api = new WikiJSAPI(this.plugin.settings);
+		const failures: string[] = [];
+		let processed = 0;
+
+		for (const [notePath, record] of deleted) {
+			// 笔记在等待确认期间被恢复或重新创建时不处理
+			if (this.app.vault.getAbstractFileByPath(notePath) instanceof TFile) {
+				continue;
+			}
+
+			let result: { succeeded: boolean; message?: string };
+			try {
+				result = await this.applyToPage(api, record, action);
+			} catch (error) {
+				result = { succeeded: false, message: error.message };
+			}
+
+			if (result.succeeded) {
+				await this.plugin.syncRegistry.remove(notePath);
+				processed++;
+			} else {
+				console.error(`Failed to ${action} wiki page /${record.path}:`, result.message);
+				failures.push(`/${record.path}: ${result.message}`);
+			}
+		}
+
+		const verb = { unpublish: 'Unpublished', archive: 'Archived', delete: 'Deleted' }[action];
+		let message = `${verb} ${processed} wiki.js page${processed === 1 ? '' : 's'}`;
+		if (failures.length > 0) {
+			message += `\n\nFailed:\n${failures.join('\n')}`;
+		}
+		new Notice(message, failures.length > 0 ? 10000 : 5000);
+	}
+
+	private async applyToPage(api: WikiJSAPI, record: SyncRecord, action: DeletionAction): Promise<{ succeeded: boolean; message?: string }> {
+		switch (action) {
+			case 'archive':
+				return api.movePage(record.pageId, getArchivePath(this.plugin.settings.archivePath, record.path), record.locale);
+			case 'delete':
+				return api.deletePage(record.pageId);
+			case 'unpublish': {
+				const page = await api.getPageContent(record.pageId);
+				if (!page || typeof page.content !== 'string') {
+					return { succeeded: false, message: 'Page not found' };
+				}
+				const result = await api.updatePage(
+					record.pageId,
+					page.path,
+					page.title,
+					page.content,
+					page.description,
+					page.tags,
+					page.locale,
+					{ isPublished: false }
+				);
+				return { succeeded: result.success, message: result.message };
+			}
+		}
+	}
+}
+
+function getArchivePath(archivePath: string, pagePath: string): string {
+	const prefix = archivePath.replace(/^\/+|\/+$/g, '') || 'archive';
+	return `${prefix}/${pagePath.replace(/^\/+/, '')}`;
+}
+
+// Deleted Pages Confirmation Modal
+class DeletedPagesModal extends Modal {
+	private deleted: Map<string, SyncRecord>;
+	private action: DeletionAction;
+	private archivePath: string;
+	private onConfirm: (action: DeletionAction) => void;
+
+	constructor(app: App, deleted: Map<string, SyncRecord>, action: DeletionAction, archivePath: string, onConfirm: (action: DeletionAction) => void) {
+		super(app);
+		this.deleted = deleted;
+		this.action = action;
+		this.archivePath = archivePath;
+		this.onConfirm = onConfirm;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl('h2', { text: 'Deleted notes' });
+		contentEl.createEl('p', {
+			text: `${this.deleted.size} published note${this.deleted.size === 1 ? ' was' : 's were'} deleted from the vault. Choose what to do with their wiki.js pages.`
+		});
+
+		const pageList = contentEl.createDiv('wikijs-deleted-pages');
+		const targetEls: HTMLElement[] = [];
+		this.deleted.forEach((record, notePath) => {
+			const item = pageList.createDiv('wikijs-deleted-page');
+			item.createEl('div', { text: `/${record.path} (${record.locale})` });
+			targetEls.push(item.createEl('div', { cls: 'setting-item-description' }));
+			item.createEl('div', { text: notePath, cls: 'setting-item-description' });
+		});
+
+		const confirmButton = createEl('button');
+		const render = () => {
+			const records = Array.from(this.deleted.values());
+			targetEls.forEach((el, index) => {
+				el.setText(this.action === 'archive' ? `→ /${getArchivePath(this.archivePath, records[index].path)}` : '');
+			});
+			confirmButton.setText(`${DELETION_ACTION_NAMES[this.action]} ${this.deleted.size} page${this.deleted.size === 1 ? '' : 's'}`);
+			confirmButton.toggleClass('mod-warning', this.action === 'delete');
+			confirmButton.toggleClass('mod-cta', this.action !== 'delete');
+		};
+
+		new Setting(contentEl)
+			.setName('Action')
+			.addDropdown(dropdown => {
+				(Object.keys(DELETION_ACTION_NAMES) as DeletionAction[]).forEach(action => {
+					dropdown.addOption(action, DELETION_ACTION_NAMES[action]);
+				});
+				dropdown
+					.setValue(this.action)
+					.onChange(value => {
+						this.action = value as DeletionAction;
+						render();
+					});
+			});
+
+		const buttonDiv = contentEl.createDiv('modal-button-container');
+		const cancelButton = buttonDiv.createEl('button', { text: 'Keep pages' });
+		cancelButton.onclick = () => this.close();
+
+		buttonDiv.appendChild(confirmButton);
+		confirmButton.onclick = () => {
+			this.close();
+			this.onConfirm(this.action);
+		};
+		render();
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
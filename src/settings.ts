@@ -1,17 +1,115 @@
 import { App, PluginSettingTab, Setting } from 'obsidian';
 import NoteToWikiJSPlugin from '../main';
 import { WikiJSAPI } from './wikijs-api';
-import { WikiJSSettings } from './types';
+import { MarkdownProcessor } from './markdown-processor';
+import { WikiJSSettings, CalloutStyle, PageMetadata, DeletionPolicy, ConversionRule, ConversionRuleScope, SlugStrategy } from './types';
 
 export const DEFAULT_SETTINGS: WikiJSSettings = {
 	wikiUrl: '',
 	apiToken: '',
 	autoConvertLinks: true,
 	preserveObsidianSyntax: false,
+	defaultLocale: 'en',
+	linkTranslations: false,
+	noteEmbeds: 'expand',
+	embedDepthLimit: 3,
+	calloutStyles: {
+		note: 'info',
+		info: 'info',
+		todo: 'info',
+		abstract: 'info',
+		summary: 'info',
+		tldr: 'info',
+		example: 'info',
+		tip: 'success',
+		hint: 'success',
+		important: 'success',
+		success: 'success',
+		check: 'success',
+		done: 'success',
+		question: 'warning',
+		help: 'warning',
+		faq: 'warning',
+		warning: 'warning',
+		caution: 'warning',
+		attention: 'warning',
+		failure: 'danger',
+		fail: 'danger',
+		missing: 'danger',
+		danger: 'danger',
+		error: 'danger',
+		bug: 'danger',
+		quote: '',
+		cite: '',
+	},
+	frontmatterKeys: {
+		title: 'title',
+		description: 'description',
+		tags: 'tags',
+		path: 'wiki-path',
+		locale: 'lang, locale',
+		isPublished: 'published',
+		isPrivate: 'private',
+		publishStartDate: 'publish-start',
+		publishEndDate: 'publish-end',
+		autoSync: 'wiki-sync',
+	},
+	autoSyncEnabled: false,
+	autoSyncFolders: [],
+	autoSyncDelay: 10,
+	replaceExistingAssets: false,
+	attachmentExtensions: ['pdf', 'mp4', 'webm', 'mov', 'mp3', 'wav', 'ogg', 'm4a', 'flac', 'zip', '7z', 'tar', 'gz', 'docx', 'xlsx', 'pptx', 'odt', 'ods', 'odp', 'csv', 'txt', 'drawio'],
+	maxUploadSize: 20,
+	pdfEmbeds: 'link',
+	syncRenames: true,
+	deletionPolicy: 'ignore',
+	archivePath: 'archive',
+	conversionRules: [],
+	slugStrategy: 'hash',
+	pathTemplate: '{{folder}}/{{slug}}',
+	pathMappings: [],
+};
+
+const FRONTMATTER_FIELD_NAMES: Record<keyof PageMetadata, string> = {
+	title: 'Title',
+	description: 'Description',
+	tags: 'Tags',
+	path: 'Wiki.js path',
+	locale: 'Locale',
+	isPublished: 'Published',
+	isPrivate: 'Private',
+	publishStartDate: 'Publish start date',
+	publishEndDate: 'Publish end date',
+	autoSync: 'Auto sync',
+};
+
+const CONVERSION_RULE_SCOPES: Record<ConversionRuleScope, string> = {
+	prose: 'Prose only',
+	links: 'Link URLs only',
+	document: 'Whole document',
+};
+
+function getRuleError(rule: ConversionRule): string {
+	try {
+		new RegExp(rule.find, rule.flags);
+		return '';
+	} catch (error) {
+		return `Invalid rule: ${error.message}`;
+	}
+}
+
+const CALLOUT_STYLE_OPTIONS: Record<CalloutStyle, string> = {
+	info: 'Info (blue)',
+	success: 'Success (green)',
+	warning: 'Warning (orange)',
+	danger: 'Danger (red)',
+	'': 'Plain blockquote',
 };
 
 export class WikiJSSettingTab extends PluginSettingTab {
 	plugin: NoteToWikiJSPlugin;
+	// 转换预览的示例文本，重新渲染设置页时保留
+	private ruleSample = '';
 
 	constructor(app: App, plugin: NoteToWikiJSPlugin) {
 		super(app, plugin);
@@ -105,6 +203,210 @@ export class WikiJSSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		new Setting(containerEl)
+			.setName('Note embeds')
+			.setDesc('How to publish embedded notes like ![[Other note]] and ![[Other note#Section]]')
+			.addDropdown(dropdown => dropdown
+				.addOption('expand', 'Insert the embedded content')
+				.addOption('link', 'Link with a short excerpt')
+				.addOption('ignore', 'Leave unchanged')
+				.setValue(this.plugin.settings.noteEmbeds)
+				.onChange(async (value) => {
+					this.plugin.settings.noteEmbeds = value as 'expand' | 'link' | 'ignore';
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Embed depth limit')
+			.setDesc('How many levels of embeds inside embedded notes are inserted; deeper embeds become links')
+			.addText(text => text
+				.setPlaceholder('3')
+				.setValue(String(this.plugin.settings.embedDepthLimit))
+				.onChange(async (value) => {
+					const depth = parseInt(value, 10);
+					if (!isNaN(depth) && depth >= 0) {
+						this.plugin.settings.embedDepthLimit = depth;
+						await this.plugin.saveSettings();
+					}
+				}));
+
+		new Setting(containerEl)
+			.setName('Default locale')
+			.setDesc('Locale used for new pages unless the note sets "lang" or "locale" in its frontmatter (e.g., en, de, zh)')
+			.addText(text => text
+				.setPlaceholder('en')
+				.setValue(this.plugin.settings.defaultLocale)
+				.onChange(async (value) => {
+					this.plugin.settings.defaultLocale = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Page paths')
+			.setDesc('How note and folder names become wiki.js paths and asset folders. Changing this does not move pages that were already uploaded.')
+			.addDropdown(dropdown => dropdown
+				.addOption('hash', 'ASCII only (hash for names in other scripts)')
+				.addOption('unicode', 'Keep Unicode characters')
+				.addOption('transliterate', 'Transliterate to ASCII (pinyin for Han characters)')
+				.setValue(this.plugin.settings.slugStrategy)
+				.onChange(async (value) => {
+					this.plugin.settings.slugStrategy = value as SlugStrategy;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Path template')
+			.setDesc('Wiki.js path of new pages. Variables: {{folder}}, {{slug}} (file name), {{date:YYYY-MM-DD}} (frontmatter "date" or the note\'s creation date) and any frontmatter property, e.g. {{category}}.')
+			.addText(text => text
+				.setPlaceholder(DEFAULT_SETTINGS.pathTemplate)
+				.setValue(this.plugin.settings.pathTemplate)
+				.onChange(async (value) => {
+					this.plugin.settings.pathTemplate = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Link translations')
+			.setDesc('Treat notes like "note.de.md" as the German translation of "note.md" and upload them to the same path in that locale (the suffix must be an ISO 639-1 language code)')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.linkTranslations)
+				.onChange(async (value) => {
+					this.plugin.settings.linkTranslations = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Replace existing assets')
+			.setDesc('Overwrite a different file with the same name in the page\'s asset folder. Files uploaded by this plugin are always replaced when they change; without this option, other files are kept and reported as failed uploads.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.replaceExistingAssets)
+				.onChange(async (value) => {
+					this.plugin.settings.replaceExistingAssets = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Attachment extensions')
+			.setDesc('File types that are uploaded when linked or embedded (comma-separated). Links to other files are left as plain text.')
+			.addTextArea(text => text
+				.setPlaceholder('pdf, mp4, mp3, zip')
+				.setValue(this.plugin.settings.attachmentExtensions.join(', '))
+				.onChange(async (value) => {
+					this.plugin.settings.attachmentExtensions = value
+						.split(',')
+						.map(extension => extension.trim().replace(/^\./, '').toLowerCase())
+						.filter(extension => extension.length > 0);
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Maximum upload size')
+			.setDesc('Images and attachments larger than this many MB are not uploaded (0 for no limit)')
+			.addText(text => text
+				.setPlaceholder('20')
+				.setValue(String(this.plugin.settings.maxUploadSize))
+				.onChange(async (value) => {
+					const size = parseFloat(value);
+					if (!isNaN(size) && size >= 0) {
+						this.plugin.settings.maxUploadSize = size;
+						await this.plugin.saveSettings();
+					}
+				}));
+
+		new Setting(containerEl)
+			.setName('PDF embeds')
+			.setDesc('How embedded PDFs (![[file.pdf]]) appear on the page. Inline viewers require iframes to be allowed in Wiki.js\'s HTML security settings.')
+			.addDropdown(dropdown => dropdown
+				.addOption('link', 'Download link')
+				.addOption('embed', 'Inline viewer')
+				.setValue(this.plugin.settings.pdfEmbeds)
+				.onChange(async (value) => {
+					this.plugin.settings.pdfEmbeds = value as 'link' | 'embed';
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Move pages with notes')
+			.setDesc('When a published note is renamed or moved, move its wiki.js page and images to the new path and update links on other published pages. Pages whose path was set by hand are not moved.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.syncRenames)
+				.onChange(async (value) => {
+					this.plugin.settings.syncRenames = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Deleted notes')
+			.setDesc('What to do with the wiki.js page when a published note is deleted. You are always asked to confirm before pages are changed.')
+			.addDropdown(dropdown => dropdown
+				.addOption('ignore', 'Keep the page')
+				.addOption('unpublish', 'Unpublish the page')
+				.addOption('archive', 'Move the page to the archive')
+				.addOption('delete', 'Delete the page')
+				.setValue(this.plugin.settings.deletionPolicy)
+				.onChange(async (value) => {
+					this.plugin.settings.deletionPolicy = value as DeletionPolicy;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Archive path')
+			.setDesc('Archived pages are moved under this path (e.g., "archive/docs/note")')
+			.addText(text => text
+				.setPlaceholder('archive')
+				.setValue(this.plugin.settings.archivePath)
+				.onChange(async (value) => {
+					this.plugin.settings.archivePath = value.trim().replace(/^\/+|\/+$/g, '');
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Auto sync')
+			.setHeading();
+
+		new Setting(containerEl)
+			.setName('Auto sync on save')
+			.setDesc(`Silently re-upload opted-in notes after they are edited. Opt in a note with "${this.plugin.settings.frontmatterKeys.autoSync.split(',')[0].trim()}: true" in its frontmatter or by placing it in one of the folders below.`)
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.autoSyncEnabled)
+				.onChange(async (value) => {
+					this.plugin.settings.autoSyncEnabled = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Auto sync folders')
+			.setDesc('Notes in these folders are synced automatically (comma-separated, e.g., Projects, Team/Docs)')
+			.addText(text => text
+				.setPlaceholder('Projects, Team/Docs')
+				.setValue(this.plugin.settings.autoSyncFolders.join(', '))
+				.onChange(async (value) => {
+					this.plugin.settings.autoSyncFolders = value
+						.split(',')
+						.map(folder => folder.trim().replace(/^\/+|\/+$/g, ''))
+						.filter(folder => folder.length > 0);
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Auto sync delay')
+			.setDesc('Seconds to wait after the last edit before uploading')
+			.addText(text => text
+				.setPlaceholder('10')
+				.setValue(String(this.plugin.settings.autoSyncDelay))
+				.onChange(async (value) => {
+					const delay = parseFloat(value);
+					if (!isNaN(delay) && delay > 0) {
+						this.plugin.settings.autoSyncDelay = delay;
+						await this.plugin.saveSettings();
+					}
+				}));
+
+		this.displayCalloutStyles(containerEl);
+		this.displayFrontmatterKeys(containerEl);
+		this.displayConversionRules(containerEl);
+		this.displayPathMappings(containerEl);
+
 		// Advanced settings section
 		new Setting(containerEl)
 			.setName('Advanced')
@@ -140,4 +442,264 @@ export class WikiJSSettingTab extends PluginSettingTab {
 		noteP.createEl('strong', { text: 'Note: ' });
 		noteP.appendText('The plugin will automatically convert Obsidian-specific syntax to be compatible with Wiki.js unless you enable "Preserve Obsidian syntax".');
 	}
+
+	/**
+	 * 页面字段对应的 frontmatter 属性名
+	 */
+	private displayFrontmatterKeys(containerEl: HTMLElement): void {
+		new Setting(containerEl)
+			.setName('Frontmatter keys')
+			.setDesc('Frontmatter properties used to fill in page fields. Separate alternative names with commas; the first one present is used.')
+			.setHeading();
+
+		const keys = this.plugin.settings.frontmatterKeys;
+		for (const field of Object.keys(FRONTMATTER_FIELD_NAMES) as Array<keyof PageMetadata>) {
+			new Setting(containerEl)
+				.setName(FRONTMATTER_FIELD_NAMES[field])
+				.addText(text => text
+					.setPlaceholder(DEFAULT_SETTINGS.frontmatterKeys[field])
+					.setValue(keys[field] || '')
+					.onChange(async (value) => {
+						keys[field] = value.trim();
+						await this.plugin.saveSettings();
+					}));
+		}
+	}
+
+	/**
+	 * 用户定义的转换规则列表和预览
+	 */
+	private displayConversionRules(containerEl: HTMLElement): void {
+		new Setting(containerEl)
+			.setName('Conversion rules')
+			.setDesc('Regular expression find/replace rules applied in order after the built-in conversion. Use $1, $2 in the replacement to insert capture groups.')
+			.setHeading();
+
+		const rules = this.plugin.settings.conversionRules;
+		let updatePreview = () => {};
+		const saveRules = async () => {
+			await this.plugin.saveSettings();
+			updatePreview();
+		};
+		const moveRule = async (index: number, offset: number) => {
+			const [rule] = rules.splice(index, 1);
+			rules.splice(index + offset, 0, rule);
+			await this.plugin.saveSettings();
+			this.display();
+		};
+
+		rules.forEach((rule, index) => {
+			const setting = new Setting(containerEl).setName(`Rule ${index + 1}`);
+			const validate = () => {
+				setting.setDesc(getRuleError(rule));
+			};
+
+			setting
+				.addToggle(toggle => toggle
+					.setTooltip('Enabled')
+					.setValue(rule.enabled)
+					.onChange(async (value) => {
+						rule.enabled = value;
+						await saveRules();
+					}))
+				.addText(text => text
+					.setPlaceholder('Find (regular expression)')
+					.setValue(rule.find)
+					.onChange(async (value) => {
+						rule.find = value;
+						validate();
+						await saveRules();
+					}))
+				.addText(text => text
+					.setPlaceholder('Replace with')
+					.setValue(rule.replace)
+					.onChange(async (value) => {
+						rule.replace = value;
+						await saveRules();
+					}))
+				.addText(text => {
+					text.inputEl.size = 4;
+					text
+						.setPlaceholder('gi')
+						.setValue(rule.flags)
+						.onChange(async (value) => {
+							rule.flags = value.trim();
+							validate();
+							await saveRules();
+						});
+				})
+				.addDropdown(dropdown => {
+					for (const [scope, label] of Object.entries(CONVERSION_RULE_SCOPES)) {
+						dropdown.addOption(scope, label);
+					}
+					dropdown
+						.setValue(rule.scope)
+						.onChange(async (value) => {
+							rule.scope = value as ConversionRuleScope;
+							await saveRules();
+						});
+				})
+				.addExtraButton(button => button
+					.setIcon('arrow-up')
+					.setTooltip('Move up')
+					.setDisabled(index === 0)
+					.onClick(() => moveRule(index, -1)))
+				.addExtraButton(button => button
+					.setIcon('arrow-down')
+					.setTooltip('Move down')
+					.setDisabled(index === rules.length - 1)
+					.onClick(() => moveRule(index, 1)))
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip('Remove')
+					.onClick(async () => {
+						rules.splice(index, 1);
+						await this.plugin.saveSettings();
+						this.display();
+					}));
+			validate();
+		});
+
+		new Setting(containerEl)
+			.setName('Add conversion rule')
+			.addButton(button => button
+				.setButtonText('Add')
+				.onClick(async () => {
+					rules.push({ find: '', replace: '', flags: 'g', scope: 'prose', enabled: true });
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		// 预览：用当前设置转换示例文本（包括内置转换和上面的规则）
+		new Setting(containerEl)
+			.setName('Test conversion')
+			.setDesc('Sample markdown to convert with the current settings')
+			.addTextArea(text => {
+				text.inputEl.rows = 4;
+				text
+					.setPlaceholder('Some text with a [[Link]] and #tag')
+					.setValue(this.ruleSample)
+					.onChange(value => {
+						this.ruleSample = value;
+						updatePreview();
+					});
+			});
+
+		const previewEl = containerEl.createEl('pre', { cls: 'wikijs-rule-preview' });
+		updatePreview = () => {
+			const processor = new MarkdownProcessor(this.plugin.settings);
+			previewEl.setText(this.ruleSample ? processor.processMarkdown(this.ruleSample, 'preview.md').content : '');
+		};
+		updatePreview();
+	}
+
+	/**
+	 * vault 文件夹到 Wiki.js 路径前缀的映射规则
+	 */
+	private displayPathMappings(containerEl: HTMLElement): void {
+		new Setting(containerEl)
+			.setName('Folder mappings')
+			.setDesc('Notes in a vault folder (and its subfolders) get a different wiki.js path prefix, used as {{folder}} in the path template. The longest matching folder wins; a rule can also use its own path template.')
+			.setHeading();
+
+		const mappings = this.plugin.settings.pathMappings;
+		const trimSlashes = (value: string) => value.trim().replace(/^\/+|\/+$/g, '');
+
+		mappings.forEach((mapping, index) => {
+			new Setting(containerEl)
+				.addText(text => text
+					.setPlaceholder('Vault folder')
+					.setValue(mapping.folder)
+					.onChange(async (value) => {
+						mapping.folder = trimSlashes(value);
+						await this.plugin.saveSettings();
+					}))
+				.addText(text => text
+					.setPlaceholder('Wiki.js path')
+					.setValue(mapping.path)
+					.onChange(async (value) => {
+						mapping.path = trimSlashes(value);
+						await this.plugin.saveSettings();
+					}))
+				.addText(text => text
+					.setPlaceholder('Path template (optional)')
+					.setValue(mapping.template)
+					.onChange(async (value) => {
+						mapping.template = value.trim();
+						await this.plugin.saveSettings();
+					}))
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip('Remove')
+					.onClick(async () => {
+						mappings.splice(index, 1);
+						await this.plugin.saveSettings();
+						this.display();
+					}));
+		});
+
+		new Setting(containerEl)
+			.setName('Add folder mapping')
+			.setDesc('e.g. Areas/Engineering/Runbooks → eng/runbooks')
+			.addButton(button => button
+				.setButtonText('Add')
+				.onClick(async () => {
+					mappings.push({ folder: '', path: '', template: '' });
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+	}
+
+	/**
+	 * Callout 类型到 Wiki.js 引用块样式的映射表
+	 */
+	private displayCalloutStyles(containerEl: HTMLElement): void {
+		new Setting(containerEl)
+			.setName('Callout styles')
+			.setDesc('Wiki.js blockquote style used for each Obsidian callout type. Unlisted types become plain blockquotes.')
+			.setHeading();
+
+		const styles = this.plugin.settings.calloutStyles;
+		for (const type of Object.keys(styles)) {
+			new Setting(containerEl)
+				.setName(type)
+				.addDropdown(dropdown => {
+					for (const [style, label] of Object.entries(CALLOUT_STYLE_OPTIONS)) {
+						dropdown.addOption(style, label);
+					}
+					dropdown
+						.setValue(styles[type])
+						.onChange(async (value) => {
+							styles[type] = value as CalloutStyle;
+							await this.plugin.saveSettings();
+						});
+				})
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip('Remove')
+					.onClick(async () => {
+						delete styles[type];
+						await this.plugin.saveSettings();
+						this.display();
+					}));
+		}
+
+		let newType = '';
+		new Setting(containerEl)
+			.setName('Add callout type')
+			.addText(text => text
+				.setPlaceholder('e.g. warning')
+				.onChange(value => newType = value))
+			.addButton(button => button
+				.setButtonText('Add')
+				.onClick(async () => {
+					const type = newType.trim().toLowerCase();
+					if (!type || type in styles) {
+						return;
+					}
+					styles[type] = 'info';
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+	}
 }
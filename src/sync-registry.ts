@@ -0,0 +1,61 @@
+import { SyncRecord } from './types';
+
+/**
+ * SyncRegistry - 记录每个笔记上传到了哪个 Wiki.js 页面
+ * 以笔记在 vault 中的路径为键，数据随插件设置一起保存
+ */
+export class SyncRegistry {
+	private records: Record<string, SyncRecord>;
+	private persist: () => Promise<void>;
+
+	constructor(records: Record<string, SyncRecord> | undefined, persist: () => Promise<void>) {
+		this.records = Object.assign({}, records);
+		this.persist = persist;
+	}
+
+	get(filePath: string): SyncRecord | null {
+		return this.records[filePath] || null;
+	}
+
+	async set(filePath: string, record: SyncRecord): Promise<void> {
+		this.records[filePath] = record;
+		await this.persist();
+	}
+
+	async remove(filePath: string): Promise<void> {
+		if (!this.records[filePath]) {
+			return;
+		}
+		delete this.records[filePath];
+		await this.persist();
+	}
+
+	/**
+	 * 笔记重命名或移动后，将记录迁移到新的路径下
+	 */
+	async rename(oldPath: string, newPath: string): Promise<void> {
+		const record = this.records[oldPath];
+		if (!record) {
+			return;
+		}
+		delete this.records[oldPath];
+		this.records[newPath] = record;
+		await this.persist();
+	}
+
+	/**
+	 * 根据 Wiki.js 页面 ID 反查对应的笔记路径
+	 */
+	findByPageId(pageId: number): string | null {
+		const entry = Object.entries(this.records).find(([, record]) => record.pageId === pageId);
+		return entry ? entry[0] : null;
+	}
+
+	entries(): Array<[string, SyncRecord]> {
+		return Object.entries(this.records);
+	}
+
+	toJSON(): Record<string, SyncRecord> {
+		return this.records;
+	}
+}
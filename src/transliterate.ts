@@ -0,0 +1,85 @@
+import { pinyin } from 'pinyin-pro';
+
+// 没有分解形式的拉丁字母，以及希腊字母和西里尔字母（俄语、乌克兰语）
+const CHARACTER_MAP: Record<string, string> = {
+	'ß': 'ss', 'æ': 'ae', 'œ': 'oe', 'ø': 'o', 'đ': 'd', 'ð': 'd', 'þ': 'th', 'ł': 'l', 'ı': 'i', 'ħ': 'h', 'ŋ': 'ng',
+	'α': 'a', 'β': 'v', 'γ': 'g', 'δ': 'd', 'ε': 'e', 'ζ': 'z', 'η': 'i', 'θ': 'th', 'ι': 'i', 'κ': 'k', 'λ': 'l', 'μ': 'm',
+	'ν': 'n', 'ξ': 'x', 'ο': 'o', 'π': 'p', 'ρ': 'r', 'σ': 's', 'ς': 's', 'τ': 't', 'υ': 'y', 'φ': 'f', 'χ': 'ch', 'ψ': 'ps', 'ω': 'o',
+	'а': 'a', 'б': 'b', 'в': 'v', 'г': 'g', 'ґ': 'g', 'д': 'd', 'е': 'e', 'ё': 'yo', 'є': 'ye', 'ж': 'zh', 'з': 'z', 'и': 'i',
+	'і': 'i', 'ї': 'yi', 'й': 'y', 'к': 'k', 'л': 'l', 'м': 'm', 'н': 'n', 'о': 'o', 'п': 'p', 'р': 'r', 'с': 's', 'т': 't',
+	'у': 'u', 'ф': 'f', 'х': 'kh', 'ц': 'ts', 'ч': 'ch', 'ш': 'sh', 'щ': 'shch', 'ъ': '', 'ы': 'y', 'ь': '', 'э': 'e', 'ю': 'yu', 'я': 'ya',
+};
+
+// 平假名的平文式罗马字（片假名先转换为平假名）
+const KANA_MAP: Record<string, string> = {
+	'あ': 'a', 'い': 'i', 'う': 'u', 'え': 'e', 'お': 'o',
+	'か': 'ka', 'き': 'ki', 'く': 'ku', 'け': 'ke', 'こ': 'ko',
+	'さ': 'sa', 'し': 'shi', 'す': 'su', 'せ': 'se', 'そ': 'so',
+	'た': 'ta', 'ち': 'chi', 'つ': 'tsu', 'て': 'te', 'と': 'to',
+	'な': 'na', 'に': 'ni', 'ぬ': 'nu', 'ね': 'ne', 'の': 'no',
+	'は': 'ha', 'ひ': 'hi', 'ふ': 'fu', 'へ': 'he', 'ほ': 'ho',
+	'ま': 'ma', 'み': 'mi', 'む': 'mu', 'め': 'me', 'も': 'mo',
+	'や': 'ya', 'ゆ': 'yu', 'よ': 'yo',
+	'ら': 'ra', 'り': 'ri', 'る': 'ru', 'れ': 're', 'ろ': 'ro',
+	'わ': 'wa', 'ゐ': 'i', 'ゑ': 'e', 'を': 'o', 'ん': 'n',
+	'が': 'ga', 'ぎ': 'gi', 'ぐ': 'gu', 'げ': 'ge', 'ご': 'go',
+	'ざ': 'za', 'じ': 'ji', 'ず': 'zu', 'ぜ': 'ze', 'ぞ': 'zo',
+	'だ': 'da', 'ぢ': 'ji', 'づ': 'zu', 'で': 'de', 'ど': 'do',
+	'ば': 'ba', 'び': 'bi', 'ぶ': 'bu', 'べ': 'be', 'ぼ': 'bo',
+	'ぱ': 'pa', 'ぴ': 'pi', 'ぷ': 'pu', 'ぺ': 'pe', 'ぽ': 'po',
+	'ぁ': 'a', 'ぃ': 'i', 'ぅ': 'u', 'ぇ': 'e', 'ぉ': 'o', 'ゎ': 'wa', 'ゔ': 'vu',
+};
+
+// 与前一个 i 段假名组成拗音的小写假名（きゃ → kya）
+const SMALL_Y_KANA: Record<string, string> = { 'ゃ': 'a', 'ゅ': 'u', 'ょ': 'o' };
+
+// 汉字（包括繁体字和日文汉字）
+const HAN_REGEX = /\p{Script=Han}+/gu;
+
+/**
+ * 把文本尽量转换为 ASCII：去掉拉丁字母的变音符号，汉字转换为不带声调的拼音（音节之间用空格分隔），
+ * 转写希腊字母、西里尔字母和日文假名；无法转写的字符（例如韩文）保持不变，由调用方决定如何处理
+ */
+export function transliterate(text: string): string {
+	const withPinyin = text.normalize('NFC').replace(HAN_REGEX, han => ` ${pinyin(han, { toneType: 'none', type: 'array', v: true }).join(' ')} `);
+	const chars = Array.from(withPinyin.toLowerCase().replace(/[ァ-ヶ]/g, char => String.fromCharCode(char.charCodeAt(0) - 0x60)));
+	let result = '';
+	let geminate = false;
+
+	for (let i = 0; i < chars.length; i++) {
+		const char = chars[i];
+		let romaji = KANA_MAP[char];
+		if (romaji !== undefined) {
+			const small = SMALL_Y_KANA[chars[i + 1]];
+			if (small && romaji.length > 1 && romaji.endsWith('i')) {
+				const consonant = romaji.slice(0, -1);
+				romaji = /(sh|ch|j)$/.test(consonant) ? consonant + small : `${consonant}y${small}`;
+				i++;
+			}
+			// 促音（っ）重复下一个音节的辅音
+			if (geminate) {
+				result += romaji.startsWith('ch') ? 't' : /^[a-z]/.test(romaji) && !/^[aeiou]/.test(romaji) ? romaji[0] : '';
+				geminate = false;
+			}
+			result += romaji;
+			continue;
+		}
+
+		geminate = false;
+		if (char === 'っ') {
+			geminate = true;
+		} else if (SMALL_Y_KANA[char]) {
+			result += `y${SMALL_Y_KANA[char]}`;
+		} else if (char === 'ー') {
+			// 长音符号省略
+		} else if (CHARACTER_MAP[char] !== undefined) {
+			result += CHARACTER_MAP[char];
+		} else {
+			// 去掉变音符号后再查一次（希腊字母的重音等）
+			const base = char.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+			result += CHARACTER_MAP[base] ?? base;
+		}
+	}
+
+	return result;
+}
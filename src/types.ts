@@ -4,21 +4,133 @@ export interface WikiJSSettings {
 	autoConvertLinks: boolean;
 	preserveObsidianSyntax: boolean;
 	uploadBehavior?: 'ask' | 'update' | 'create-new';
+	defaultLocale: string;
+	linkTranslations: boolean;
+	noteEmbeds: 'expand' | 'link' | 'ignore';
+	embedDepthLimit: number;
+	calloutStyles: Record<string, CalloutStyle>;
+	frontmatterKeys: Record<keyof PageMetadata, string>;
+	autoSyncEnabled: boolean;
+	autoSyncFolders: string[];
+	autoSyncDelay: number;
+	replaceExistingAssets: boolean;
+	attachmentExtensions: string[];
+	maxUploadSize: number;
+	pdfEmbeds: 'link' | 'embed';
+	syncRenames: boolean;
+	deletionPolicy: DeletionPolicy;
+	archivePath: string;
+	conversionRules: ConversionRule[];
+	slugStrategy: SlugStrategy;
+	pathTemplate: string;
+	pathMappings: PathMapping[];
 }
 
-export interface WikiJSPageResponse {
+/**
+ * vault 文件夹到 Wiki.js 路径的映射：folder 下的笔记使用 path 作为路径前缀，
+ * template 不为空时代替全局的路径模板（folder 和 path 不带首尾斜杠）
+ */
+export interface PathMapping {
+	folder: string;
+	path: string;
+	template: string;
+}
+
+/**
+ * 路径模板中除文件夹和文件名以外的变量来源
+ */
+export interface PathTemplateContext {
+	frontmatter?: Record<string, unknown>;
+	// 笔记的创建时间（毫秒），frontmatter 中没有日期时用于 {{date}}
+	created?: number;
+}
+
+/**
+ * 页面路径的生成方式：保留 Unicode 字符、转写为 ASCII，或只保留 ASCII（其他文字的名称使用摘要）
+ */
+export type SlugStrategy = 'unicode' | 'transliterate' | 'hash';
+
+/**
+ * 已发布笔记被删除后如何处理对应的 Wiki.js 页面
+ */
+export type DeletionPolicy = 'ignore' | 'unpublish' | 'archive' | 'delete';
+
+/**
+ * 用户定义的转换规则：内置转换完成后按顺序执行的正则查找替换
+ */
+export interface ConversionRule {
+	find: string;
+	replace: string;
+	flags: string;
+	scope: ConversionRuleScope;
+	enabled: boolean;
+}
+
+/**
+ * 转换规则的作用范围：整个页面、只有正文（跳过代码和 HTML 块）、只有链接和图片地址
+ */
+export type ConversionRuleScope = 'document' | 'prose' | 'links';
+
+/**
+ * Wiki.js 引用块样式（{.is-info} 等），空字符串表示普通引用块
+ */
+export type CalloutStyle = 'info' | 'success' | 'warning' | 'danger' | '';
+
+export interface WikiJSPageResponse extends PagePublishing {
 	id: number;
 	path: string;
 	title: string;
+	locale?: string;
 	createdAt: string;
 	updatedAt: string;
 }
 
-export interface WikiJSPage {
+export interface WikiJSPage extends PagePublishing {
 	id: string;
 	path: string;
 	title: string;
 	description?: string;
+	locale?: string;
+	updatedAt?: string;
+	content?: string;
+	tags?: string[];
+}
+
+/**
+ * Wiki.js 导航菜单中的一项：链接、标题或分隔线
+ */
+export interface WikiJSNavigationItem {
+	id: string;
+	kind: 'link' | 'header' | 'divider';
+	label?: string;
+	icon?: string;
+	targetType?: string;
+	target?: string;
+	visibilityMode?: string;
+	visibilityGroups?: number[];
+}
+
+/**
+ * 一种语言的导航菜单
+ */
+export interface WikiJSNavigationTree {
+	locale: string;
+	items: WikiJSNavigationItem[];
+}
+
+/**
+ * 导航模式：NONE 不显示，TREE 显示页面树，STATIC 只显示导航菜单，MIXED 两者都显示
+ */
+export type WikiJSNavigationMode = 'NONE' | 'TREE' | 'MIXED' | 'STATIC';
+
+export interface WikiJSAsset {
+	id: number;
+	filename: string;
+	ext: string;
+	kind: string;
+	mime: string;
+	fileSize: number;
+	updatedAt: string;
 }
 
 export interface WikiJSCreatePageMutation {
@@ -49,15 +161,70 @@ export interface WikiJSUpdatePageMutation {
 	};
 }
 
+export interface WikiJSLocale {
+	code: string;
+	name: string;
+	nativeName: string;
+	isInstalled: boolean;
+}
+
 export interface WikiJSPageListResponse {
 	pages: {
 		list: WikiJSPageResponse[];
 	};
 }
 
-export interface UploadResult {
+/**
+ * 从笔记 frontmatter 中读取的页面字段，未设置的字段为 undefined
+ */
+export interface PageMetadata extends PagePublishing {
+	title?: string;
+	description?: string;
+	tags?: string[];
+	path?: string;
+	locale?: string;
+	autoSync?: boolean;
+}
+
+/**
+ * 页面的发布状态和发布时间范围，未设置的字段在更新页面时沿用当前值
+ */
+export interface PagePublishing {
+	isPublished?: boolean;
+	isPrivate?: boolean;
+	publishStartDate?: string;
+	publishEndDate?: string;
+}
+
+export interface ProcessedMarkdown {
+	content: string;
+	title: string;
+	images: Array<{ name: string; path: string }>;
+	attachments: Array<{ name: string; path: string }>;
+	unresolvedLinks: string[];
+}
+
+export interface UploadResult extends PagePublishing {
 	success: boolean;
 	message: string;
 	pageId?: number;
 	pageUrl?: string;
-}
\ No newline at end of file
+	locale?: string;
+	updatedAt?: string;
+}
+
+/**
+ * Vault 笔记与 Wiki.js 页面的对应关系，按笔记路径保存在插件数据中
+ */
+export interface SyncRecord {
+	pageId: number;
+	path: string;
+	locale: string;
+	contentHash: string;
+	updatedAt: string;
+	title?: string;
+	description?: string;
+	tags?: string[];
+	// 已上传资源文件的内容摘要，键为 "资源文件夹路径/文件名"
+	assetHashes?: Record<string, string>;
+}
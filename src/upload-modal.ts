@@ -1,33 +1,40 @@
-import { App, Modal, Setting, TFile, Notice } from 'obsidian';
+import { App, Modal, Setting, TFile, Notice, TextComponent, ToggleComponent } from 'obsidian';
 import NoteToWikiJSPlugin from '../main';
 import { MarkdownProcessor } from './markdown-processor';
 import { WikiJSAPI } from './wikijs-api';
-import { ImageTagProcessor } from './image-tag-processor';
+import { NoteUploader, PageFields, ImageUploadReport } from './note-uploader';
 import { WikiJSPage } from './types';
+import { diffLines, DiffLine } from './line-diff';
 
 export class UploadModal extends Modal {
 	plugin: NoteToWikiJSPlugin;
 	file: TFile;
 	private processor: MarkdownProcessor;
 	private api: WikiJSAPI;
-	private imageProcessor: ImageTagProcessor;
+	private uploader: NoteUploader;
 	
 	// Form fields
 	private pathInput: string;
+	private pathOrigin: string;
 	private titleInput: string;
 	private tagsInput: string;
 	private descriptionInput: string;
+	private localeInput: string;
+	private publishStateInput: 'keep' | 'published' | 'draft';
+	private privateInput?: boolean;
+	private publishStartInput: string;
+	private publishEndInput: string;
+	private clearScheduleInput = false;
 	private content: string;
-	private images: Array<{ name: string; path: string }>;
 	private uploadButton: HTMLButtonElement;
 
 	constructor(app: App, plugin: NoteToWikiJSPlugin, file: TFile) {
 		super(app);
 		this.plugin = plugin;
 		this.file = file;
-		this.processor = new MarkdownProcessor(plugin.settings);
+		this.processor = new MarkdownProcessor(plugin.settings, app, plugin.syncRegistry);
 		this.api = new WikiJSAPI(plugin.settings);
-		this.imageProcessor = new ImageTagProcessor(app);
+		this.uploader = new NoteUploader(app, plugin);
 		
 		// Initialize form fields
 		this.initializeFields().catch((error) => {
@@ -40,17 +47,20 @@ export class UploadModal extends Modal {
 	private async initializeFields() {
 		const content = await this.app.vault.read(this.file);
 		
-		// 先生成页面路径
-		this.pathInput = this.processor.generatePath(this.file.name, this.file.parent?.path);
+		// 先生成页面字段，已上传过的笔记沿用上次确认的路径
+		const fields = this.uploader.getDefaultFields(this.file, content);
+		this.pathInput = fields.path;
+		this.pathOrigin = this.uploader.describeDefaultPath(this.file, content);
 		
-		// 初始处理 markdown 内容（不传入 pagePath，因为用户可能会修改路径）
-		const processed = this.processor.processMarkdown(content, this.file.name);
-		
-		this.titleInput = processed.title;
+		this.titleInput = fields.title;
 		this.content = content; // 保存原始内容，在上传时根据最终路径重新处理
-		this.images = processed.images;
-		this.tagsInput = this.processor.extractTags(content).join(', ');
-		this.descriptionInput = '';
+		this.tagsInput = fields.tags.join(', ');
+		this.descriptionInput = fields.description || '';
+		this.localeInput = fields.locale;
+		this.publishStateInput = fields.isPublished === undefined ? 'keep' : fields.isPublished ? 'published' : 'draft';
+		this.privateInput = fields.isPrivate;
+		this.publishStartInput = fields.publishStartDate || '';
+		this.publishEndInput = fields.publishEndDate || '';
 	}
 
 	onOpen() {
@@ -67,11 +77,31 @@ export class UploadModal extends Modal {
 		// Path setting
 		new Setting(contentEl)
 			.setName('Wiki.js path')
-			.setDesc('The path where this page will be created in wiki.js')
+			.setDesc('The path where this page will be created in wiki.js' + (this.pathOrigin ? ` (${this.pathOrigin})` : ''))
 			.addText(text => text
 				.setValue(this.pathInput)
 				.onChange(value => this.pathInput = value));
 
+		// Locale setting
+		new Setting(contentEl)
+			.setName('Locale')
+			.setDesc('The language of the page in wiki.js')
+			.addDropdown(dropdown => {
+				dropdown
+					.addOption(this.localeInput, this.localeInput)
+					.setValue(this.localeInput)
+					.onChange(value => this.localeInput = value);
+
+				// 异步加载 Wiki.js 中已安装的语言
+				void this.api.getLocales().then(locales => {
+					for (const locale of locales) {
+						if (locale.code !== this.localeInput) {
+							dropdown.addOption(locale.code, `${locale.nativeName} (${locale.code})`);
+						}
+					}
+				});
+			});
+
 		// Title setting
 		new Setting(contentEl)
 			.setName('Page title')
@@ -96,6 +126,82 @@ export class UploadModal extends Modal {
 				.setValue(this.tagsInput)
 				.onChange(value => this.tagsInput = value));
 
+		// Publishing settings
+		new Setting(contentEl)
+			.setName('Publish state')
+			.setDesc('Upload as a draft to keep the page unpublished')
+			.addDropdown(dropdown => dropdown
+				.addOption('keep', 'Keep current state (published for new pages)')
+				.addOption('published', 'Published')
+				.addOption('draft', 'Draft (unpublished)')
+				.setValue(this.publishStateInput)
+				.onChange(value => this.publishStateInput = value as 'keep' | 'published' | 'draft'));
+
+		// 未在 frontmatter 中指定时显示页面当前的设置；只有用户修改后才会作为新值上传
+		let showingCurrentState = false;
+		let privateToggle: ToggleComponent | undefined;
+		new Setting(contentEl)
+			.setName('Private')
+			.setDesc('Mark the page as private')
+			.addToggle(toggle => {
+				privateToggle = toggle;
+				toggle
+					.setValue(this.privateInput ?? false)
+					.onChange(value => {
+						if (!showingCurrentState) {
+							this.privateInput = value;
+						}
+					});
+			});
+
+		let publishStartText: TextComponent | undefined;
+		let publishEndText: TextComponent | undefined;
+		new Setting(contentEl)
+			.setName('Publish start')
+			.setDesc('Optional date the page becomes visible (e.g., 2024-05-01 or 2024-05-01T09:00). Leave empty to keep the current schedule.')
+			.addText(text => {
+				publishStartText = text;
+				text
+					.setPlaceholder('YYYY-MM-DD')
+					.setValue(this.publishStartInput)
+					.onChange(value => this.publishStartInput = value);
+			});
+
+		new Setting(contentEl)
+			.setName('Publish end')
+			.setDesc('Optional date the page stops being visible')
+			.addText(text => {
+				publishEndText = text;
+				text
+					.setPlaceholder('YYYY-MM-DD')
+					.setValue(this.publishEndInput)
+					.onChange(value => this.publishEndInput = value);
+			});
+
+		new Setting(contentEl)
+			.setName('Clear publish window')
+			.setDesc('Remove the page\'s publish start and end dates')
+			.addToggle(toggle => toggle
+				.setValue(this.clearScheduleInput)
+				.onChange(value => {
+					this.clearScheduleInput = value;
+					publishStartText?.setDisabled(value);
+					publishEndText?.setDisabled(value);
+				}));
+
+		void this.checkIfPageExists().then(page => {
+			if (!page) {
+				return;
+			}
+			if (this.privateInput === undefined) {
+				showingCurrentState = true;
+				privateToggle?.setValue(page.isPrivate === true);
+				showingCurrentState = false;
+			}
+			publishStartText?.setPlaceholder(page.publishStartDate ? `Current: ${page.publishStartDate.substring(0, 10)}` : 'YYYY-MM-DD');
+			publishEndText?.setPlaceholder(page.publishEndDate ? `Current: ${page.publishEndDate.substring(0, 10)}` : 'YYYY-MM-DD');
+		}).catch(error => console.debug('Could not load the current page state:', error));
+
 		// Buttons
 		const buttonDiv = contentEl.createDiv('modal-button-container');
 		
@@ -112,62 +218,21 @@ export class UploadModal extends Modal {
 		contentEl.addClass('wikijs-upload-modal');
 	}
 
-	private async uploadImages(images: Array<{ name: string; path: string }>): Promise<Map<string, string>> {
-		const imageMap = new Map<string, string>();
+	private async uploadImages(images: Array<{ name: string; path: string }>): Promise<ImageUploadReport> {
+		const report = await this.uploader.uploadImages(this.file, images, this.pathInput.trim());
 		
-		// 在上传图片前，先根据页面路径创建文件夹结构，并获取精确的文件夹 ID
-		let targetFolderId = 0;
-		try {
-			targetFolderId = await this.api.ensureAssetFolderPath(this.pathInput.trim());
-			console.debug(`Asset folder prepared, folderId: ${targetFolderId}`);
-		} catch (error) {
-			console.warn('Failed to create asset folder structure:', error);
-			// 继续执行，使用根目录
-			targetFolderId = 0;
+		// 逐个显示上传结果
+		for (const name of report.uploaded) {
+			new Notice(`✅ ${name} uploaded successfully`);
 		}
-		
-		// 使用 ImageTagProcessor 批量解析图片文件
-		const imageFileMap = this.imageProcessor.resolveImageFiles(images, this.file);
-		
-		for (const image of images) {
-			try {
-				console.debug('Processing image:', image.name, 'Original path:', image.path);
-				
-				const file = imageFileMap.get(image.path);
-				
-				if (file instanceof TFile) {
-					console.debug('Found file:', file.path, 'File name:', file.name);
-					const arrayBuffer = await this.app.vault.readBinary(file);
-					
-					// 上传图片到 Wiki.js，使用实际文件的完整文件名（包含扩展名）
-					await this.api.uploadAsset(file.name, arrayBuffer, targetFolderId);
-					
-					// 上传成功，显示提示
-					new Notice(`✅ ${file.name} uploaded successfully`);
-					console.debug(`✅ Successfully uploaded: ${file.name}`);
-				} else {
-					console.error(`File not found: ${image.name} (path: ${image.path})`);
-					new Notice(`Image file not found: ${image.name}`);
-				}
-			} catch (error) {
-				console.error(`Failed to upload image ${image.name}:`, error);
-				new Notice(`Failed to upload image ${image.name}: ${error.message}`);
-			}
+		if (report.skipped.length > 0) {
+			new Notice(`${report.skipped.length} unchanged images skipped`);
 		}
-		
-		// 返回空的映射，因为不需要替换路径
-		return imageMap;
-	}
-
-	private replaceImagePaths(content: string, imageMap: Map<string, string>): string {
-		let newContent = content;
-		for (const [oldPath, newPath] of imageMap) {
-			// 替换图片路径，处理可能的相对路径和绝对路径
-			const escapedOldPath = oldPath.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-			const regex = new RegExp(`!\\[([^\\]]*)\\]\\(${escapedOldPath}\\)`, 'g');
-			newContent = newContent.replace(regex, `![$1](${newPath})`);
+		for (const failure of report.failed) {
+			new Notice(`Failed to upload image ${failure.name}: ${failure.message}`);
 		}
-		return newContent;
+		
+		return report;
 	}
 
 	private async performUpload() {
@@ -182,15 +247,68 @@ export class UploadModal extends Modal {
 			return;
 		}
 
+		// 清除发布时间窗口时以空值上传，空输入框表示保持页面当前的设置
+		const publishStartDate = this.clearScheduleInput ? '' : this.parseDateInput(this.publishStartInput);
+		const publishEndDate = this.clearScheduleInput ? '' : this.parseDateInput(this.publishEndInput);
+		if (publishStartDate === null || publishEndDate === null) {
+			new Notice('Publish dates must be valid dates (e.g., 2024-05-01)');
+			return;
+		}
+
 		this.uploadButton.textContent = 'Uploading...';
 		this.uploadButton.disabled = true;
 
 		try {
+		// 使用用户最终确认的路径重新处理 markdown 内容
+		// 这样可以确保图片路径使用正确的 Wiki.js 路径
+		console.debug('Processing markdown with final path:', this.pathInput.trim());
+		const expandedContent = await this.processor.expandNoteEmbeds(this.content, this.file);
+		const finalProcessed = this.processor.processMarkdown(expandedContent, this.file.name, this.pathInput.trim(), this.file);
+		const processedContent = finalProcessed.content;
+		const assets = [...finalProcessed.images, ...finalProcessed.attachments];
+
+		// 无法解析的链接不会静默生成死链，而是提示用户
+		if (finalProcessed.unresolvedLinks.length > 0) {
+			new Notice(`Unresolved links (no matching note in vault): ${finalProcessed.unresolvedLinks.join(', ')}`, 10000);
+		}
+
+		const fields: PageFields = {
+			path: this.pathInput.trim(),
+			title: this.titleInput.trim(),
+			description: this.descriptionInput.trim() || undefined,
+			tags: this.parseTags(),
+			locale: this.localeInput,
+			isPublished: this.publishStateInput === 'keep' ? undefined : this.publishStateInput === 'published',
+			isPrivate: this.privateInput,
+			publishStartDate,
+			publishEndDate
+		};
+
 		// Check if page already exists before uploading images
 			const existingPage = await this.checkIfPageExists();
 		console.debug('Existing page:', existingPage);
+
+		// 比较和显示差异时使用已上传资源的实际地址，与保存到同步记录中的内容一致
+		let comparableContent = processedContent;
+		if (existingPage && assets.length > 0) {
+			const knownUrls = await this.uploader.getKnownAssetUrls(this.file, assets, fields.path);
+			comparableContent = this.processor.processMarkdown(expandedContent, this.file.name, fields.path, this.file, knownUrls).content;
+		}
+
+		// 本地内容与上次上传相同且页面在 Wiki.js 上也未被修改时，只上传有变化的图片
+		const record = this.plugin.syncRegistry.get(this.file.path);
+		if (existingPage && record && existingPage.updatedAt === record.updatedAt
+			&& await this.uploader.isUnchanged(this.file, fields, comparableContent, existingPage)) {
+			if (assets.length > 0) {
+				await this.uploader.savePageImages(this.file, fields.path, await this.uploadImages(assets));
+			}
+			new Notice(`Page is already up to date: ${this.plugin.settings.wikiUrl}/${fields.path}`);
+			this.close();
+			return;
+		}
+
 			if (existingPage) {
-				const shouldUpdate = await this.confirmUpdate(existingPage);
+				const shouldUpdate = await this.confirmUpdate(existingPage, comparableContent);
 				if (!shouldUpdate) {
 					this.uploadButton.textContent = 'Upload';
 					this.uploadButton.disabled = false;
@@ -198,48 +316,22 @@ export class UploadModal extends Modal {
 				}
 		}
 
-		// 使用用户最终确认的路径重新处理 markdown 内容
-		// 这样可以确保图片路径使用正确的 Wiki.js 路径
-		console.debug('Processing markdown with final path:', this.pathInput.trim());
-		const finalProcessed = this.processor.processMarkdown(this.content, this.file.name, this.pathInput.trim());
-		const processedContent = finalProcessed.content;
-
 		// 首先上传所有图片
-		if (this.images && this.images.length > 0) {
-			new Notice(`Uploading ${this.images.length} images...`);
-			await this.uploadImages(this.images);
-			// 不替换图片路径，保持原样
+		// 使用展开嵌入笔记后的图片列表，嵌入内容中的图片也会一并上传
+		let imageReport: ImageUploadReport | undefined;
+		let finalContent = processedContent;
+		if (assets.length > 0) {
+			new Notice(`Uploading ${assets.length} images and attachments...`);
+			imageReport = await this.uploadImages(assets);
+			// 图片引用改写为实际上传的资源地址
+			finalContent = this.processor.processMarkdown(expandedContent, this.file.name, fields.path, this.file, imageReport.urls).content;
 		}
 		
-		let result;
-		if (existingPage) {
-				const pageId = Number(existingPage.id);
-				if (isNaN(pageId)) {
-					new Notice(`Invalid page ID: ${existingPage.id}`);
-					this.uploadButton.textContent = 'Upload';
-					this.uploadButton.disabled = false;
-					return;
-				}
-				result = await this.api.updatePage(
-					pageId,
-					this.pathInput.trim(),
-					this.titleInput.trim(),
-					processedContent,
-					this.descriptionInput.trim() || undefined,
-					this.parseTags()
-				);
-			} else {
-				result = await this.api.createPage(
-					this.pathInput.trim(),
-					this.titleInput.trim(),
-					processedContent,
-					this.descriptionInput.trim() || undefined,
-					this.parseTags()
-				);
-			}
+		const result = await this.uploader.savePage(this.file, fields, finalContent, existingPage, imageReport);
 
 			if (result.success) {
-				new Notice(`Successfully ${existingPage ? 'updated' : 'created'} page: ${result.pageUrl}`);
+				const draftNote = result.isPublished === false ? ' (unpublished draft)' : '';
+				new Notice(`Successfully ${existingPage ? 'updated' : 'created'} page: ${result.pageUrl}${draftNote}`);
 				this.close();
 			} else {
 				new Notice(`Failed to ${existingPage ? 'update' : 'create'} page: ${result.message}`);
@@ -254,24 +346,25 @@ export class UploadModal extends Modal {
 	}
 
 	private async checkIfPageExists(): Promise<WikiJSPage | null> {
-		try {
-			console.debug('Checking if page exists at path:', this.pathInput.trim());
-			const page = await this.api.getPageByPath(this.pathInput.trim());
-			return page; // 如果页面不存在，getPageByPath 会返回 null
-		} catch {
-			// Page doesn't exist
-			return null;
-		}
+		// 优先使用同步记录中的页面 ID，即使路径被修改过也能找到同一个页面
+		return this.uploader.findExistingPage(this.file, this.pathInput.trim(), this.localeInput);
 	}
 
-	private async confirmUpdate(existingPage: WikiJSPage): Promise<boolean> {
+	private async confirmUpdate(existingPage: WikiJSPage, localContent: string): Promise<boolean> {
+		// 获取远端页面的 Markdown 内容，与即将上传的内容进行比较
+		const remotePage = await this.api.getPageContent(Number(existingPage.id));
+		const record = this.plugin.syncRegistry.get(this.file.path);
+		const remoteChanged = !!(record && remotePage?.updatedAt && record.pageId === Number(existingPage.id)
+			&& record.updatedAt && remotePage.updatedAt !== record.updatedAt);
+
 		return new Promise((resolve) => {
 			const modal = new Modal(this.app);
 			modal.titleEl.setText('Page already exists');
+			modal.modalEl.addClass('wikijs-diff-modal');
 			
 			const content = modal.contentEl;
 			content.createEl('p', { 
-				text: `A page already exists at path "${this.pathInput}". What would you like to do?`
+				text: `A page already exists at path "${existingPage.path}". What would you like to do?`
 			});
 			
 			content.createEl('p', { 
@@ -279,27 +372,101 @@ export class UploadModal extends Modal {
 				cls: 'setting-item-description'
 			});
 
+			if (remoteChanged) {
+				content.createEl('p', {
+					text: `⚠️ The page was edited on wiki.js since your last upload (${remotePage?.updatedAt}). Overwriting will discard those changes.`,
+					cls: 'wikijs-remote-changed'
+				});
+			}
+
+			if (remotePage && typeof remotePage.content === 'string') {
+				this.renderDiff(content, diffLines(remotePage.content.trim(), localContent));
+			} else {
+				content.createEl('p', {
+					text: 'Could not load the current content of the page to compare.',
+					cls: 'setting-item-description'
+				});
+			}
+
+			let resolved = false;
+			const finish = (value: boolean) => {
+				if (!resolved) {
+					resolved = true;
+					resolve(value);
+				}
+				modal.close();
+			};
+			// 通过 Esc 或关闭按钮关闭时视为取消
+			modal.onClose = () => finish(false);
+
 			const buttonDiv = content.createDiv('modal-button-container');
 			
 			const cancelButton = buttonDiv.createEl('button', { text: 'Cancel' });
-			cancelButton.onclick = () => {
-				modal.close();
-				resolve(false);
+			cancelButton.onclick = () => finish(false);
+
+			const openButton = buttonDiv.createEl('button', { text: 'Open remote page' });
+			openButton.onclick = () => {
+				window.open(`${this.plugin.settings.wikiUrl}/${existingPage.path}`);
 			};
 
 			const updateButton = buttonDiv.createEl('button', { 
-				text: 'Update existing',
+				text: 'Overwrite',
 				cls: 'mod-warning'
 			});
-			updateButton.onclick = () => {
-				modal.close();
-				resolve(true);
-			};
+			updateButton.onclick = () => finish(true);
 
 			modal.open();
 		});
 	}
 
+	/**
+	 * 渲染远端内容（-）与本地内容（+）的行差异，未改动的长段落折叠显示
+	 */
+	private renderDiff(container: HTMLElement, diff: DiffLine[]) {
+		const changed = diff.filter(line => line.type !== 'unchanged').length;
+		container.createEl('p', {
+			text: changed === 0
+				? 'The converted content is identical to the page on wiki.js.'
+				: `${diff.filter(line => line.type === 'removed').length} lines removed, ${diff.filter(line => line.type === 'added').length} lines added compared to wiki.js:`,
+			cls: 'setting-item-description'
+		});
+		if (changed === 0) {
+			return;
+		}
+
+		const context = 3;
+		const visible = diff.map((line, index) => diff
+			.slice(Math.max(0, index - context), index + context + 1)
+			.some(near => near.type !== 'unchanged'));
+
+		const diffEl = container.createDiv('wikijs-diff');
+		let skipped = false;
+		diff.forEach((line, index) => {
+			if (!visible[index]) {
+				if (!skipped) {
+					diffEl.createDiv({ text: '…', cls: 'wikijs-diff-skip' });
+					skipped = true;
+				}
+				return;
+			}
+			skipped = false;
+			const prefix = line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  ';
+			diffEl.createDiv({ text: prefix + line.text, cls: `wikijs-diff-line wikijs-diff-${line.type}` });
+		});
+	}
+
+	/**
+	 * 将日期输入转换为 ISO 字符串；空值返回 undefined（沿用当前设置），无效日期返回 null
+	 */
+	private parseDateInput(value: string): string | undefined | null {
+		const trimmed = value.trim();
+		if (!trimmed) {
+			return undefined;
+		}
+		const timestamp = Date.parse(trimmed);
+		return isNaN(timestamp) ? null : new Date(timestamp).toISOString();
+	}
+
 	private parseTags(): string[] {
 		return this.tagsInput
 			.split(',')
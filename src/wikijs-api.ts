@@ -1,5 +1,5 @@
 import { requestUrl } from 'obsidian';
-import { WikiJSSettings, WikiJSCreatePageMutation, WikiJSUpdatePageMutation, WikiJSPageListResponse, UploadResult, WikiJSPage } from './types';
+import { WikiJSSettings, WikiJSCreatePageMutation, WikiJSUpdatePageMutation, WikiJSPageListResponse, UploadResult, WikiJSPage, WikiJSLocale, PagePublishing, WikiJSAsset, WikiJSNavigationTree, WikiJSNavigationMode } from './types';
 
 export class WikiJSAPI {
 	private settings: WikiJSSettings;
@@ -77,7 +77,37 @@ export class WikiJSAPI {
 		return await this.makeGraphQLRequest(query) as WikiJSPageListResponse;
 	}
 
-	async getPageByPath(path: string): Promise<WikiJSPage | null> {
+	/**
+	 * 获取 Wiki.js 中已安装的语言
+	 */
+	async getLocales(): Promise<WikiJSLocale[]> {
+		const query = `
+			{
+				localization {
+					locales {
+						code
+						name
+						nativeName
+						isInstalled
+					}
+				}
+			}
+		`;
+
+		try {
+			const result = await this.makeGraphQLRequest(query) as {
+				localization: {
+					locales: WikiJSLocale[];
+				};
+			};
+			return (result.localization.locales || []).filter(locale => locale.isInstalled);
+		} catch (error) {
+			console.error('Get locales error:', error);
+			return [];
+		}
+	}
+
+	async getPageByPath(path: string, locale?: string): Promise<WikiJSPage | null> {
 		// 去掉路径最前面的 /
 		const normalizedPath = path.startsWith('/') ? path.substring(1) : path;
 		
@@ -105,8 +135,9 @@ export class WikiJSAPI {
 		};
 		// return result.pages.single;
 		// 在搜索结果中查找完全匹配的 path
+		// 指定语言时，同一路径下其他语言的页面不算作已存在
 		const exactMatch = result.pages.search.results.find(
-			(page) => page.path === normalizedPath
+			(page) => page.path === normalizedPath && (!locale || page.locale === locale)
 		);
 
 		return exactMatch || null;
@@ -117,12 +148,88 @@ export class WikiJSAPI {
 		// };
 	}
 
+	/**
+	 * 根据页面 ID 获取页面，页面不存在时返回 null
+	 */
+	async getPageById(id: number): Promise<WikiJSPage | null> {
+		const query = `
+			query($id: Int!) {
+				pages {
+					single(id: $id) {
+						id
+						path
+						title
+						description
+						locale
+						updatedAt
+						isPublished
+						isPrivate
+						publishStartDate
+						publishEndDate
+					}
+				}
+			}
+		`;
+
+		try {
+			const result = await this.makeGraphQLRequest(query, { id }) as {
+				pages: {
+					single: (Omit<WikiJSPage, 'id'> & { id: number }) | null;
+				};
+			};
+			const page = result.pages.single;
+			return page ? { ...page, id: String(page.id) } : null;
+		} catch (error) {
+			console.debug(`Page ${id} not found:`, error);
+			return null;
+		}
+	}
+
+	/**
+	 * 获取页面的 Markdown 源内容，用于覆盖前与本地内容比较
+	 */
+	async getPageContent(id: number): Promise<WikiJSPage | null> {
+		const query = `
+			query($id: Int!) {
+				pages {
+					single(id: $id) {
+						id
+						path
+						title
+						description
+						locale
+						updatedAt
+						content
+						tags {
+							tag
+						}
+					}
+				}
+			}
+		`;
+
+		try {
+			const result = await this.makeGraphQLRequest(query, { id }) as {
+				pages: {
+					single: (Omit<WikiJSPage, 'id' | 'tags'> & { id: number; tags: Array<{ tag: string }> }) | null;
+				};
+			};
+			const page = result.pages.single;
+			return page ? { ...page, id: String(page.id), tags: (page.tags || []).map(tag => tag.tag) } : null;
+		} catch (error) {
+			console.error(`Get page content error (${id}):`, error);
+			return null;
+		}
+	}
+
 	async createPage(
 		path: string,
 		title: string,
 		content: string,
 		description?: string,
-		tags?: string[]
+		tags?: string[],
+		locale?: string,
+		publishing: PagePublishing = {}
 	): Promise<UploadResult> {
 		const mutation = `
       mutation ($content: String!, $description: String!, $editor: String!, $isPrivate: Boolean!, $isPublished: Boolean!, $locale: String!, $path: String!, $publishEndDate: Date, $publishStartDate: Date, $scriptCss: String, $scriptJs: String, $tags: [String]!, $title: String!) {
@@ -152,6 +259,12 @@ export class WikiJSAPI {
 							id
 							path
 							title
+							locale
+							updatedAt
+							isPublished
+							isPrivate
+							publishStartDate
+							publishEndDate
 						}
 					}
 				}
@@ -163,12 +276,12 @@ export class WikiJSAPI {
 				content,
 				description: description || '',
 				editor: 'markdown',
-				isPrivate: false,
-				isPublished: true,
-				locale: 'zh',
+				isPrivate: publishing.isPrivate ?? false,
+				isPublished: publishing.isPublished ?? true,
+				locale: locale || this.settings.defaultLocale || 'en',
 				path,
-				publishEndDate: '',
-				publishStartDate: '',
+				publishEndDate: publishing.publishEndDate || '',
+				publishStartDate: publishing.publishStartDate || '',
 				scriptCss: "",
 				scriptJs: "",
 				tags: (tags || []).filter(tag => tag && tag.trim()),
@@ -182,7 +295,13 @@ export class WikiJSAPI {
 					success: true,
 					message: 'Page created successfully',
 					pageId: result.pages.create.page.id,
-					pageUrl: `${this.settings.wikiUrl}/${path}`
+					pageUrl: `${this.settings.wikiUrl}/${path}`,
+					locale: result.pages.create.page.locale,
+					updatedAt: result.pages.create.page.updatedAt,
+					isPublished: result.pages.create.page.isPublished,
+					isPrivate: result.pages.create.page.isPrivate,
+					publishStartDate: result.pages.create.page.publishStartDate,
+					publishEndDate: result.pages.create.page.publishEndDate
 				};
 			} else {
 				return {
@@ -204,25 +323,45 @@ export class WikiJSAPI {
 		title: string,
 		content: string,
 		description?: string,
-		tags?: string[]
+		tags?: string[],
+		locale?: string,
+		publishing: PagePublishing = {}
 	): Promise<UploadResult> {
 		// 去掉路径最前面的 /
 		const normalizedPath = path.startsWith('/') ? path.substring(1) : path;
+
+		// Wiki.js 更新页面时会把未传入的发布状态当作未发布，
+		// 因此未指定的字段需要沿用页面当前的设置，避免静默地改变页面状态
+		// 读取失败时不能套用默认值（会重新发布已取消发布的页面），直接放弃更新
+		const complete = publishing.isPublished !== undefined && publishing.isPrivate !== undefined
+			&& publishing.publishStartDate !== undefined && publishing.publishEndDate !== undefined;
+		const current = complete ? null : await this.getPageById(id);
+		if (!complete && !current) {
+			return {
+				success: false,
+				message: 'Could not read the current publish state of the page; not updating it to avoid changing it'
+			};
+		}
+		const isPublished = publishing.isPublished ?? current?.isPublished ?? true;
+		const isPrivate = publishing.isPrivate ?? current?.isPrivate ?? false;
+		const publishStartDate = publishing.publishStartDate ?? current?.publishStartDate ?? '';
+		const publishEndDate = publishing.publishEndDate ?? current?.publishEndDate ?? '';
 		
 		const mutation = `
-			mutation($id: Int!, $path: String!, $title: String!, $content: String!, $description: String, $tags: [String!]) {
+			mutation($id: Int!, $path: String!, $locale: String, $title: String!, $content: String!, $description: String, $tags: [String!], $isPublished: Boolean, $isPrivate: Boolean, $publishStartDate: Date, $publishEndDate: Date) {
 				pages {
 					update(
 						id: $id
 						path: $path
+						locale: $locale
 						title: $title
 						content: $content
 						description: $description
 						tags: $tags
-						isPublished: true
-						isPrivate: false
-						publishStartDate: ""
-						publishEndDate: ""
+						isPublished: $isPublished
+						isPrivate: $isPrivate
+						publishStartDate: $publishStartDate
+						publishEndDate: $publishEndDate
 						scriptCss: ""
 						scriptJs: ""
 					) {
@@ -236,6 +375,12 @@ export class WikiJSAPI {
 							id
 							path
 							title
+							locale
+							updatedAt
+							isPublished
+							isPrivate
+							publishStartDate
+							publishEndDate
 						}
 					}
 				}
@@ -246,11 +391,16 @@ export class WikiJSAPI {
 			const variables = {
 				id,
 				path: normalizedPath,
+				locale: locale || null,
 				title,
 				// content: content.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n'),
 				content,
 				description: description || '',
-				tags: tags || []
+				tags: tags || [],
+				isPublished,
+				isPrivate,
+				publishStartDate,
+				publishEndDate
 			};
 
 			const result = await this.makeGraphQLRequest(mutation, variables) as WikiJSUpdatePageMutation;
@@ -260,7 +410,13 @@ export class WikiJSAPI {
 					success: true,
 					message: 'Page updated successfully',
 					pageId: result.pages.update.page.id,
-					pageUrl: `${this.settings.wikiUrl}/${normalizedPath}`
+					pageUrl: `${this.settings.wikiUrl}/${normalizedPath}`,
+					locale: result.pages.update.page.locale,
+					updatedAt: result.pages.update.page.updatedAt,
+					isPublished: result.pages.update.page.isPublished,
+					isPrivate: result.pages.update.page.isPrivate,
+					publishStartDate: result.pages.update.page.publishStartDate,
+					publishEndDate: result.pages.update.page.publishEndDate
 				};
 			} else {
 				return {
@@ -276,6 +432,229 @@ export class WikiJSAPI {
 		}
 	}
 
+	/**
+	 * 移动页面到新的路径（和语言）
+	 */
+	async movePage(id: number, destinationPath: string, destinationLocale: string): Promise<{ succeeded: boolean; message?: string }> {
+		const mutation = `
+			mutation ($id: Int!, $destinationPath: String!, $destinationLocale: String!) {
+				pages {
+					move(id: $id, destinationPath: $destinationPath, destinationLocale: $destinationLocale) {
+						responseResult {
+							succeeded
+							errorCode
+							slug
+							message
+						}
+					}
+				}
+			}
+		`;
+
+		try {
+			const result = await this.makeGraphQLRequest(mutation, {
+				id,
+				destinationPath: destinationPath.replace(/^\/+/, ''),
+				destinationLocale
+			}) as {
+				pages: {
+					move: {
+						responseResult: {
+							succeeded: boolean;
+							message: string;
+						};
+					};
+				};
+			};
+			const responseResult = result.pages.move.responseResult;
+			return {
+				succeeded: responseResult.succeeded,
+				message: responseResult.succeeded ? undefined : responseResult.message || 'Unknown error'
+			};
+		} catch (error) {
+			console.error('Move page error:', error);
+			return {
+				succeeded: false,
+				message: error.message
+			};
+		}
+	}
+
+	async deletePage(id: number): Promise<{ succeeded: boolean; message?: string }> {
+		const mutation = `
+			mutation ($id: Int!) {
+				pages {
+					delete(id: $id) {
+						responseResult {
+							succeeded
+							errorCode
+							slug
+							message
+						}
+					}
+				}
+			}
+		`;
+
+		try {
+			const result = await this.makeGraphQLRequest(mutation, { id }) as {
+				pages: {
+					delete: {
+						responseResult: {
+							succeeded: boolean;
+							message: string;
+						};
+					};
+				};
+			};
+			const responseResult = result.pages.delete.responseResult;
+			return {
+				succeeded: responseResult.succeeded,
+				message: responseResult.succeeded ? undefined : responseResult.message || 'Unknown error'
+			};
+		} catch (error) {
+			console.error('Delete page error:', error);
+			return {
+				succeeded: false,
+				message: error.message
+			};
+		}
+	}
+
+	/**
+	 * 获取导航菜单（所有语言）和导航模式
+	 */
+	async getNavigation(): Promise<{ tree: WikiJSNavigationTree[]; mode: WikiJSNavigationMode } | null> {
+		const query = `
+			{
+				navigation {
+					tree {
+						locale
+						items {
+							id
+							kind
+							label
+							icon
+							targetType
+							target
+							visibilityMode
+							visibilityGroups
+						}
+					}
+					config {
+						mode
+					}
+				}
+			}
+		`;
+
+		try {
+			const result = await this.makeGraphQLRequest(query) as {
+				navigation: {
+					tree: WikiJSNavigationTree[];
+					config: {
+						mode: WikiJSNavigationMode;
+					};
+				};
+			};
+			return {
+				tree: result.navigation.tree || [],
+				mode: result.navigation.config.mode
+			};
+		} catch (error) {
+			console.error('Get navigation error:', error);
+			return null;
+		}
+	}
+
+	/**
+	 * 保存导航菜单，tree 需要包含所有语言（未包含的语言的导航会被清空）
+	 */
+	async updateNavigation(tree: WikiJSNavigationTree[]): Promise<{ succeeded: boolean; message?: string }> {
+		const mutation = `
+			mutation ($tree: [NavigationTreeInput]!) {
+				navigation {
+					updateTree(tree: $tree) {
+						responseResult {
+							succeeded
+							errorCode
+							slug
+							message
+						}
+					}
+				}
+			}
+		`;
+
+		try {
+			const result = await this.makeGraphQLRequest(mutation, { tree }) as {
+				navigation: {
+					updateTree: {
+						responseResult: {
+							succeeded: boolean;
+							message: string;
+						};
+					};
+				};
+			};
+			const responseResult = result.navigation.updateTree.responseResult;
+			return {
+				succeeded: responseResult.succeeded,
+				message: responseResult.succeeded ? undefined : responseResult.message || 'Unknown error'
+			};
+		} catch (error) {
+			console.error('Update navigation error:', error);
+			return {
+				succeeded: false,
+				message: error.message
+			};
+		}
+	}
+
+	/**
+	 * 修改导航模式
+	 */
+	async updateNavigationMode(mode: WikiJSNavigationMode): Promise<{ succeeded: boolean; message?: string }> {
+		const mutation = `
+			mutation ($mode: NavigationMode!) {
+				navigation {
+					updateConfig(mode: $mode) {
+						responseResult {
+							succeeded
+							errorCode
+							slug
+							message
+						}
+					}
+				}
+			}
+		`;
+
+		try {
+			const result = await this.makeGraphQLRequest(mutation, { mode }) as {
+				navigation: {
+					updateConfig: {
+						responseResult: {
+							succeeded: boolean;
+							message: string;
+						};
+					};
+				};
+			};
+			const responseResult = result.navigation.updateConfig.responseResult;
+			return {
+				succeeded: responseResult.succeeded,
+				message: responseResult.succeeded ? undefined : responseResult.message || 'Unknown error'
+			};
+		} catch (error) {
+			console.error('Update navigation mode error:', error);
+			return {
+				succeeded: false,
+				message: error.message
+			};
+		}
+	}
+
 	/**
 	 * 获取资源文件夹列表
 	 * @param parentFolderId 父文件夹 ID（0 表示根目录）
@@ -381,6 +760,102 @@ export class WikiJSAPI {
 		}
 	}
 
+	/**
+	 * 查找路径对应的资源文件夹，不创建缺失的文件夹
+	 * @param path 完整路径（如 "folder1/folder2/folder3"）
+	 * @returns 文件夹 ID，如果路径中任一级不存在返回 null
+	 */
+	async findAssetFolderPath(path: string): Promise<number | null> {
+		let currentFolderId = 0;
+		for (const folderName of path.split('/').filter(p => p.trim())) {
+			const folderId = await this.findFolderIdByName(currentFolderId, folderName);
+			if (!folderId) {
+				return null;
+			}
+			currentFolderId = folderId;
+		}
+		return currentFolderId;
+	}
+
+	/**
+	 * 获取资源文件夹中的文件列表，读取失败时抛出错误
+	 * @param folderId 文件夹 ID（0 表示根目录）
+	 */
+	async getAssets(folderId: number): Promise<WikiJSAsset[]> {
+		const query = `
+			query ($folderId: Int!) {
+				assets {
+					list(folderId: $folderId, kind: ALL) {
+						id
+						filename
+						ext
+						kind
+						mime
+						fileSize
+						updatedAt
+					}
+				}
+			}
+		`;
+
+		try {
+			const result = await this.makeGraphQLRequest(query, { folderId }) as {
+				assets: {
+					list: WikiJSAsset[];
+				};
+			};
+			return result.assets.list || [];
+		} catch (error) {
+			// 调用方依赖文件列表判断文件是否已存在，不能把读取失败当作空文件夹
+			console.error('Get assets error:', error);
+			throw new Error(`Could not list assets: ${error.message}`);
+		}
+	}
+
+	/**
+	 * 删除资源文件
+	 */
+	async deleteAsset(id: number): Promise<{ succeeded: boolean; message?: string }> {
+		const mutation = `
+			mutation ($id: Int!) {
+				assets {
+					deleteAsset(id: $id) {
+						responseResult {
+							succeeded
+							errorCode
+							slug
+							message
+						}
+					}
+				}
+			}
+		`;
+
+		try {
+			const result = await this.makeGraphQLRequest(mutation, { id }) as {
+				assets: {
+					deleteAsset: {
+						responseResult: {
+							succeeded: boolean;
+							message: string;
+						};
+					};
+				};
+			};
+			const responseResult = result.assets.deleteAsset.responseResult;
+			return {
+				succeeded: responseResult.succeeded,
+				message: responseResult.succeeded ? undefined : responseResult.message || 'Unknown error'
+			};
+		} catch (error) {
+			console.error('Delete asset error:', error);
+			return {
+				succeeded: false,
+				message: error.message
+			};
+		}
+	}
+
 	/**
 	 * 根据路径创建文件夹结构
 	 * @param path 完整路径（如 "folder1/folder2/folder3"），将使用所有部分创建文件夹
@@ -457,7 +932,38 @@ export class WikiJSAPI {
 					'tif': 'image/tiff',
 					'avif': 'image/avif',
 					'heic': 'image/heic',
-					'heif': 'image/heif'
+					'heif': 'image/heif',
+					'pdf': 'application/pdf',
+					'mp4': 'video/mp4',
+					'm4v': 'video/mp4',
+					'webm': 'video/webm',
+					'ogv': 'video/ogg',
+					'mov': 'video/quicktime',
+					'mp3': 'audio/mpeg',
+					'wav': 'audio/wav',
+					'ogg': 'audio/ogg',
+					'oga': 'audio/ogg',
+					'm4a': 'audio/mp4',
+					'aac': 'audio/aac',
+					'flac': 'audio/flac',
+					'opus': 'audio/opus',
+					'zip': 'application/zip',
+					'7z': 'application/x-7z-compressed',
+					'tar': 'application/x-tar',
+					'gz': 'application/gzip',
+					'doc': 'application/msword',
+					'docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+					'xls': 'application/vnd.ms-excel',
+					'xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+					'ppt': 'application/vnd.ms-powerpoint',
+					'pptx': 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+					'odt': 'application/vnd.oasis.opendocument.text',
+					'ods': 'application/vnd.oasis.opendocument.spreadsheet',
+					'odp': 'application/vnd.oasis.opendocument.presentation',
+					'csv': 'text/csv',
+					'txt': 'text/plain',
+					'json': 'application/json',
+					'drawio': 'application/vnd.jgraph.mxfile'
 				};
 				return mimeTypes[ext] || 'application/octet-stream';
 			};